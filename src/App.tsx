@@ -7,6 +7,11 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Record from "./pages/Record";
 import Recordings from "./pages/Recordings";
+import RecordingPlayer from "./pages/RecordingPlayer";
+import Settings from "./pages/Settings";
+import AnalyzeVideo from "./pages/AnalyzeVideo";
+import SessionReport from "./pages/SessionReport";
+import Trends from "./pages/Trends";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,6 +26,12 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/record" element={<Record />} />
           <Route path="/recordings" element={<Recordings />} />
+          <Route path="/recordings/:id" element={<RecordingPlayer />} />
+          <Route path="/recordings/:id/analyze" element={<AnalyzeVideo />} />
+          <Route path="/recordings/:id/report" element={<SessionReport />} />
+          <Route path="/analyze" element={<AnalyzeVideo />} />
+          <Route path="/trends" element={<Trends />} />
+          <Route path="/settings" element={<Settings />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
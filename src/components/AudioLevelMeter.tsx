@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Mic, MicOff } from 'lucide-react';
+import { toDecibels, type AudioLevel, type AudioMeter } from '@/utils/audioLevels';
+
+// Range of the meter in dBFS; quieter than the floor shows as empty
+const METER_FLOOR_DB = -60;
+
+const toPercent = (amplitude: number) =>
+  Math.max(0, Math.min(100, ((toDecibels(amplitude) - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+interface AudioLevelMeterProps {
+  meter: AudioMeter | null;
+  /** Whether clipping happened recently; held so brief clips stay visible */
+  clipping: boolean;
+  muted: boolean;
+}
+
+/**
+ * A horizontal VU meter showing RMS as the bar and the window's peak as a tick.
+ * It follows the meter itself, so only this component re-renders with each level.
+ */
+const AudioLevelMeter = ({ meter, clipping, muted }: AudioLevelMeterProps) => {
+  const [level, setLevel] = useState<AudioLevel | null>(null);
+
+  useEffect(() => {
+    if (!meter) return;
+    return meter.subscribe(setLevel);
+  }, [meter]);
+
+  const rms = muted || !level ? 0 : toPercent(level.rms);
+  const peak = muted || !level ? 0 : toPercent(level.peak);
+
+  return (
+    <div className="flex items-center gap-2">
+      {muted ? (
+        <MicOff className="h-3 w-3 shrink-0 text-destructive" />
+      ) : (
+        <Mic className="h-3 w-3 shrink-0 text-muted-foreground" />
+      )}
+      <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-secondary">
+        {/* The gradient is fixed to the track, so the bar reveals more of it as it grows */}
+        <div
+          className="absolute inset-0 bg-gradient-to-r from-green-500 via-yellow-400 to-red-500 transition-[clip-path] duration-75"
+          style={{ clipPath: `inset(0 ${100 - rms}% 0 0)` }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-foreground/80" style={{ left: `${peak}%` }} />
+      </div>
+      <span
+        className={`w-8 text-center text-[10px] font-semibold rounded px-1 ${
+          clipping ? 'bg-destructive text-destructive-foreground' : 'text-muted-foreground/50'
+        }`}
+      >
+        CLIP
+      </span>
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Gauge, RotateCcw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { useSettings } from '@/hooks/use-settings';
+import { getEmotionBackendMetadata } from '@/utils/emotionBackends';
+import { runCalibration } from '@/utils/emotionCalibration';
+import { disposeEmotionDetectionModel, loadEmotionDetectionModel } from '@/utils/emotionDetection';
+import { formatPercent } from '@/utils/format';
+import { getSettings } from '@/utils/settings';
+
+/**
+ * Calibrates the selected emotion model against a folder of labeled face
+ * images and shows how it measured up
+ */
+const CalibrationCard = () => {
+  const [settings, updateSettings] = useSettings();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const backend = settings.emotionBackend;
+  const backendLabel = getEmotionBackendMetadata(backend)?.label ?? backend;
+  const calibration = settings.calibrations[backend];
+
+  // Stop classifying if the user leaves the page mid-run
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFolder = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: files.length });
+
+    try {
+      if (!await loadEmotionDetectionModel(backend)) {
+        throw new Error('Could not load the emotion model');
+      }
+      const result = await runCalibration(files, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      // Settings may have changed during the run, so merge into the current ones
+      updateSettings({ calibrations: { ...getSettings().calibrations, [backend]: result } });
+      toast.success(`Calibrated on ${result.samples} images: ${formatPercent(result.accuracy, 1)} accurate`);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Calibration failed:', error);
+        toast.error(error instanceof Error ? error.message : 'Calibration failed');
+      }
+    } finally {
+      await disposeEmotionDetectionModel();
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const resetCalibration = () => {
+    const { [backend]: _removed, ...rest } = settings.calibrations;
+    updateSettings({ calibrations: rest });
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <Gauge className="h-5 w-5 text-studio-primary" />
+        <h3 className="font-medium">Calibration</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Classifiers tend to be overconfident. Pick a folder of face images sorted into subfolders
+        named after each emotion (e.g. a FER2013 test split) to measure {backendLabel}'s accuracy and
+        scale its confidence so that it matches how often it is right.
+      </p>
+
+      {calibration ? (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Accuracy</p>
+            <p className="font-medium tabular-nums">{formatPercent(calibration.accuracy, 1)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Calibration error (held out)</p>
+            <p className="font-medium tabular-nums">
+              {formatPercent(calibration.eceBefore, 1)} → {formatPercent(calibration.ece, 1)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Temperature</p>
+            <p className="font-medium tabular-nums">{calibration.temperature.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Images</p>
+            <p className="font-medium tabular-nums">{calibration.samples}</p>
+          </div>
+          <p className="col-span-full text-xs text-muted-foreground">
+            Measured {new Date(calibration.calibratedAt).toLocaleString()}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm rounded-md border border-border/50 p-3">
+          {backendLabel} is not calibrated; its confidence is the raw model output.
+        </p>
+      )}
+
+      {progress ? (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>Classifying images…</span>
+            <span className="text-muted-foreground tabular-nums">{progress.done} / {progress.total}</span>
+          </div>
+          <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+          <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+            <X className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <FolderOpen className="mr-2 h-4 w-4" />
+              {calibration ? 'Recalibrate' : 'Choose validation folder'}
+              <input
+                type="file"
+                className="hidden"
+                accept="image/*"
+                multiple
+                {...{ webkitdirectory: '' }}
+                onChange={handleFolder}
+              />
+            </label>
+          </Button>
+          {calibration && (
+            <Button variant="ghost" size="sm" onClick={resetCalibration}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Reset
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-border/50">
+        <div className="flex justify-between text-sm">
+          <Label>Uncertain below</Label>
+          <span className="text-muted-foreground tabular-nums">{Math.round(settings.uncertaintyThreshold * 100)}%</span>
+        </div>
+        <Slider
+          min={0}
+          max={0.9}
+          step={0.05}
+          value={[settings.uncertaintyThreshold]}
+          onValueChange={([value]) => updateSettings({ uncertaintyThreshold: value })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Frames whose top emotion is less likely than this are shown as uncertain instead of being labeled
+        </p>
+      </div>
+    </Card>
+  );
+};
+
+export default CalibrationCard;
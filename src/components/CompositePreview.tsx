@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { clampBubble, type BubblePlacement } from '@/utils/recordingStream';
+
+interface CompositePreviewProps {
+  stream: MediaStream | null;
+  bubble: BubblePlacement;
+  onBubbleChange: (bubble: BubblePlacement) => void;
+  /** Whether the camera bubble is shown and can be moved */
+  showBubble: boolean;
+}
+
+type DragMode = 'move' | 'resize';
+
+// How far outside the bubble's edge, in pixels, still grabs it for resizing
+const EDGE_GRAB = 10;
+
+/**
+ * Where the video is actually drawn inside an object-contain element
+ */
+const contentRect = (video: HTMLVideoElement) => {
+  const rect = video.getBoundingClientRect();
+  const scale = Math.min(rect.width / video.videoWidth, rect.height / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  return {
+    left: rect.left + (rect.width - width) / 2,
+    top: rect.top + (rect.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Shows the composited recording, where the camera bubble can be dragged to
+ * move it or dragged by its edge to resize it
+ */
+const CompositePreview = ({ stream, bubble, onBubbleChange, showBubble }: CompositePreviewProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dragRef = useRef<{ mode: DragMode; offsetX: number; offsetY: number } | null>(null);
+  const [cursor, setCursor] = useState('default');
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Which part of the bubble, if any, is under the pointer
+  const hitTest = (event: React.PointerEvent<HTMLVideoElement>) => {
+    const video = videoRef.current;
+    if (!video || !showBubble || !video.videoWidth) return null;
+
+    const rect = contentRect(video);
+    const { x, y, size } = clampBubble(bubble, rect.width / rect.height);
+    const dx = event.clientX - (rect.left + x * rect.width);
+    const dy = event.clientY - (rect.top + y * rect.height);
+    const distance = Math.hypot(dx, dy);
+    const radius = (size * rect.height) / 2;
+
+    if (distance > radius + EDGE_GRAB) return null;
+    return { mode: (distance > radius * 0.75 ? 'resize' : 'move') as DragMode, dx, dy, rect };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLVideoElement>) => {
+    const hit = hitTest(event);
+    if (!hit) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { mode: hit.mode, offsetX: hit.dx, offsetY: hit.dy };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLVideoElement>) => {
+    const video = videoRef.current;
+    const drag = dragRef.current;
+    if (!drag || !video) {
+      const hit = hitTest(event);
+      setCursor(hit ? (hit.mode === 'move' ? 'move' : 'nwse-resize') : 'default');
+      return;
+    }
+
+    const rect = contentRect(video);
+    const aspectRatio = rect.width / rect.height;
+    if (drag.mode === 'move') {
+      onBubbleChange(clampBubble({
+        ...bubble,
+        x: (event.clientX - drag.offsetX - rect.left) / rect.width,
+        y: (event.clientY - drag.offsetY - rect.top) / rect.height,
+      }, aspectRatio));
+    } else {
+      const centreX = rect.left + bubble.x * rect.width;
+      const centreY = rect.top + bubble.y * rect.height;
+      const radius = Math.hypot(event.clientX - centreX, event.clientY - centreY);
+      onBubbleChange(clampBubble({ ...bubble, size: (radius * 2) / rect.height }, aspectRatio));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLVideoElement>) => {
+    if (!dragRef.current) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  return (
+    <video
+      ref={videoRef}
+      autoPlay
+      muted
+      playsInline
+      className="w-full h-full object-contain touch-none"
+      style={{ cursor }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    />
+  );
+};
+
+export default CompositePreview;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { Camera, Mic } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface DeviceSelectProps {
+  icon: React.ReactNode;
+  devices: MediaDeviceInfo[];
+  value: string | null;
+  fallbackLabel: string;
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+const DeviceSelect = ({ icon, devices, value, fallbackLabel, onChange, disabled }: DeviceSelectProps) => {
+  return (
+    <Select value={value ?? undefined} onValueChange={onChange} disabled={disabled || devices.length === 0}>
+      <SelectTrigger className="h-8 text-xs gap-2">
+        {icon}
+        <SelectValue placeholder={`No ${fallbackLabel.toLowerCase()} found`} />
+      </SelectTrigger>
+      <SelectContent>
+        {devices.map((device, index) => (
+          <SelectItem key={device.deviceId} value={device.deviceId} className="text-xs">
+            {device.label || `${fallbackLabel} ${index + 1}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+interface DeviceSelectorProps {
+  videoInputs: MediaDeviceInfo[];
+  audioInputs: MediaDeviceInfo[];
+  videoDeviceId: string | null;
+  audioDeviceId: string | null;
+  onVideoDeviceChange: (deviceId: string) => void;
+  onAudioDeviceChange: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+const DeviceSelector = ({
+  videoInputs,
+  audioInputs,
+  videoDeviceId,
+  audioDeviceId,
+  onVideoDeviceChange,
+  onAudioDeviceChange,
+  disabled
+}: DeviceSelectorProps) => {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      <DeviceSelect
+        icon={<Camera className="h-3 w-3 shrink-0 text-muted-foreground" />}
+        devices={videoInputs}
+        value={videoDeviceId}
+        fallbackLabel="Camera"
+        onChange={onVideoDeviceChange}
+        disabled={disabled}
+      />
+      <DeviceSelect
+        icon={<Mic className="h-3 w-3 shrink-0 text-muted-foreground" />}
+        devices={audioInputs}
+        value={audioDeviceId}
+        fallbackLabel="Microphone"
+        onChange={onAudioDeviceChange}
+        disabled={disabled}
+      />
+    </div>
+  );
+};
+
+export default DeviceSelector;
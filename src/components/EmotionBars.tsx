@@ -0,0 +1,32 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import type { EmotionScores } from '@/utils/emotionDetection';
+
+const EMOTION_ROWS: { key: keyof EmotionScores; label: string }[] = [
+  { key: 'happy', label: 'Happy' },
+  { key: 'neutral', label: 'Neutral' },
+  { key: 'surprised', label: 'Surprised' },
+  { key: 'sad', label: 'Sad' },
+  { key: 'angry', label: 'Angry' },
+  { key: 'disgust', label: 'Disgust' },
+  { key: 'fear', label: 'Fear' },
+];
+
+interface EmotionBarsProps {
+  emotions: EmotionScores;
+}
+
+const EmotionBars = ({ emotions }: EmotionBarsProps) => {
+  return (
+    <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+      {EMOTION_ROWS.map(({ key, label }) => (
+        <React.Fragment key={key}>
+          <span className="text-muted-foreground">{label}</span>
+          <Progress value={emotions[key] * 100} className="h-2" />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default EmotionBars;
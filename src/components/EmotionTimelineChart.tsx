@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { EmotionScores } from '@/utils/emotionDetection';
+import type { EmotionSample } from '@/utils/emotionTimeline';
+import { formatDuration } from '@/utils/format';
+import { EMOTION_KEYS, EMOTION_PALETTE } from '@/utils/emotionPalette';
+
+const chartConfig = EMOTION_PALETTE satisfies ChartConfig;
+
+type ChartMode = 'stacked' | 'lines';
+
+interface EmotionTimelineChartProps {
+  samples: EmotionSample[];
+  /** Recording length in seconds */
+  duration: number;
+  /** Playback position in seconds */
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const EmotionTimelineChart = ({ samples, duration, currentTime, onSeek }: EmotionTimelineChartProps) => {
+  const [mode, setMode] = useState<ChartMode>('stacked');
+
+  const data = useMemo(
+    () => samples.map(sample => ({ time: sample.time / 1000, ...sample.scores })),
+    [samples]
+  );
+
+  // Clicking anywhere on the plot seeks to the hovered sample
+  const handleClick = (state: { activeLabel?: string | number } | null) => {
+    if (state?.activeLabel === undefined) return;
+    onSeek(Number(state.activeLabel));
+  };
+
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis
+        dataKey="time"
+        type="number"
+        domain={[0, Math.max(duration, data[data.length - 1]?.time ?? 0)]}
+        tickFormatter={value => formatDuration(value)}
+        tickLine={false}
+        axisLine={false}
+      />
+      <YAxis
+        domain={mode === 'stacked' ? [0, 1] : [0, 'auto']}
+        tickFormatter={value => `${Math.round(value * 100)}%`}
+        tickLine={false}
+        axisLine={false}
+        width={40}
+      />
+      <ChartTooltip
+        content={
+          <ChartTooltipContent
+            indicator="line"
+            labelFormatter={(_, payload) => formatDuration(payload?.[0]?.payload?.time ?? 0)}
+            formatter={(value, name) => (
+              <div className="flex flex-1 justify-between gap-2">
+                <span className="text-muted-foreground">{chartConfig[name as keyof EmotionScores]?.label}</span>
+                <span className="font-mono tabular-nums">{Math.round(Number(value) * 100)}%</span>
+              </div>
+            )}
+          />
+        }
+      />
+      <ChartLegend content={<ChartLegendContent />} />
+      <ReferenceLine x={currentTime} stroke="hsl(var(--foreground))" strokeWidth={1.5} ifOverflow="hidden" />
+    </>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={value => value && setMode(value as ChartMode)}
+        >
+          <ToggleGroupItem value="stacked" className="text-xs">Stacked</ToggleGroupItem>
+          <ToggleGroupItem value="lines" className="text-xs">Lines</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full cursor-pointer">
+        {mode === 'stacked' ? (
+          <AreaChart data={data} onClick={handleClick} margin={{ left: 0, right: 8 }}>
+            {axes}
+            {EMOTION_KEYS.map(key => (
+              <Area
+                key={key}
+                dataKey={key}
+                type="monotone"
+                stackId="emotions"
+                stroke={`var(--color-${key})`}
+                fill={`var(--color-${key})`}
+                fillOpacity={0.4}
+                isAnimationActive={false}
+              />
+            ))}
+          </AreaChart>
+        ) : (
+          <LineChart data={data} onClick={handleClick} margin={{ left: 0, right: 8 }}>
+            {axes}
+            {EMOTION_KEYS.map(key => (
+              <Line
+                key={key}
+                dataKey={key}
+                type="monotone"
+                stroke={`var(--color-${key})`}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        )}
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default EmotionTimelineChart;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Braces, Captions, Download, FileArchive, FileSpreadsheet, Video } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getRecordingAnalysis, getRecordingBlob, type RecordingMetadata } from '@/utils/recordingStore';
+import { emotionsToCsv, emotionsToWebVtt, toAnalysisExport } from '@/utils/analysisExport';
+import { exportSessionBundle } from '@/utils/sessionBundle';
+import { downloadBlob, toFileName } from '@/utils/download';
+import { extensionForMimeType } from '@/utils/recordingFormats';
+import { getSettings } from '@/utils/settings';
+
+type ExportFormat = 'video' | 'bundle' | 'csv' | 'json' | 'vtt';
+
+interface ExportMenuProps {
+  recording: RecordingMetadata;
+  /** Renders a small icon-only trigger, for use on recording cards */
+  compact?: boolean;
+}
+
+/**
+ * Downloads a recording's video, a bundle that can be imported on another
+ * machine, or its emotion analysis as CSV, JSON or a WebVTT caption track
+ * that plays alongside the video in other players
+ */
+const ExportMenu = ({ recording, compact }: ExportMenuProps) => {
+  const baseName = toFileName(recording.title);
+
+  const exportAs = async (format: ExportFormat) => {
+    try {
+      if (format === 'video') {
+        const blob = await getRecordingBlob(recording.id);
+        if (!blob) throw new Error('Recording video not found');
+        downloadBlob(blob, `${baseName}.${extensionForMimeType(recording.mimeType)}`);
+        return;
+      }
+      if (format === 'bundle') {
+        downloadBlob(await exportSessionBundle(recording.id), `${baseName}.session.zip`);
+        return;
+      }
+
+      const analysis = await getRecordingAnalysis(recording.id);
+      if (!analysis) throw new Error('Recording analysis not found');
+
+      if (format === 'csv') {
+        downloadBlob(new Blob([emotionsToCsv(analysis.emotions)], { type: 'text/csv' }), `${baseName}.emotions.csv`);
+      } else if (format === 'json') {
+        const json = JSON.stringify(toAnalysisExport(recording, analysis), null, 2);
+        downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}.analysis.json`);
+      } else {
+        const track = emotionsToWebVtt(analysis.emotions, recording.duration, getSettings().uncertaintyThreshold);
+        downloadBlob(new Blob([track], { type: 'text/vtt' }), `${baseName}.vtt`);
+      }
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {compact ? (
+          <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Export">
+            <Download className="h-3 w-3" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => exportAs('video')}>
+          <Video className="mr-2 h-4 w-4" />
+          Video
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportAs('bundle')}>
+          <FileArchive className="mr-2 h-4 w-4" />
+          Session bundle (.zip)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Emotion analysis</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportAs('csv')}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          CSV (per frame)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportAs('json')}>
+          <Braces className="mr-2 h-4 w-4" />
+          JSON (full analysis)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportAs('vtt')}>
+          <Captions className="mr-2 h-4 w-4" />
+          WebVTT captions
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
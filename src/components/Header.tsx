@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Video } from 'lucide-react';
+import { Settings, Video } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 const Header = () => {
@@ -16,6 +16,14 @@ const Header = () => {
           <Link to="/recordings">
             <Button variant="ghost">My Recordings</Button>
           </Link>
+          <Link to="/trends">
+            <Button variant="ghost">Trends</Button>
+          </Link>
+          <Link to="/settings">
+            <Button variant="ghost" size="icon" aria-label="Settings">
+              <Settings className="h-5 w-5" />
+            </Button>
+          </Link>
         </div>
       </div>
     </header>
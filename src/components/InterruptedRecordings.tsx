@@ -0,0 +1,94 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { useDiscardSession, useInterruptedSessions, useRecoverSession } from '@/hooks/use-recordings';
+import { formatDate, formatDuration } from '@/utils/format';
+
+/**
+ * Offers to recover recordings that were cut short by a crash or closed tab.
+ * Renders nothing when there are none.
+ */
+const InterruptedRecordings = () => {
+  const { data: sessions = [] } = useInterruptedSessions();
+  const recoverMutation = useRecoverSession();
+  const discardMutation = useDiscardSession();
+  const busy = recoverMutation.isPending || discardMutation.isPending;
+
+  const recover = async (id: string) => {
+    try {
+      const recording = await recoverMutation.mutateAsync(id);
+      if (recording) {
+        toast.success(`Recovered "${recording.title}"`);
+      } else {
+        toast('Nothing had been recorded yet, so the session was removed');
+      }
+    } catch (error) {
+      console.error('Failed to recover recording:', error);
+      toast.error('Could not recover recording');
+    }
+  };
+
+  const discard = async (id: string) => {
+    try {
+      await discardMutation.mutateAsync(id);
+      toast('Interrupted recording discarded');
+    } catch (error) {
+      console.error('Failed to discard recording:', error);
+      toast.error('Could not discard recording');
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <Card className="p-4 mb-6 space-y-3 border-studio-accent/50">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-5 w-5 text-studio-accent" />
+        <h3 className="font-medium">Interrupted Recordings</h3>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        These recordings were not finished, but everything up to the last second was kept.
+      </p>
+      <div className="space-y-2">
+        {sessions.map(session => (
+          <div
+            key={session.id}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md bg-muted/50 p-3"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{session.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDate(session.createdAt)} · {formatDuration(session.duration)} recorded
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button
+                size="sm"
+                onClick={() => recover(session.id)}
+                disabled={busy}
+                className="bg-studio-primary hover:bg-studio-primary/90"
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Recover
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => discard(session.id)}
+                disabled={busy}
+                className="hover:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default InterruptedRecordings;
@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Tag, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useUpdateRecording } from '@/hooks/use-recordings';
+import { getRecording, type RecordingMetadata } from '@/utils/recordingStore';
+
+interface TagEditorProps {
+  recording: RecordingMetadata;
+}
+
+// Tags are compared case-insensitively, so "Interview" and "interview" are one tag
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Lists a recording's tags and lets them be added or removed
+ */
+const TagEditor = ({ recording }: TagEditorProps) => {
+  const [draft, setDraft] = useState('');
+  const updateMutation = useUpdateRecording();
+  const tags = recording.tags ?? [];
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Edits run one at a time against the stored tags, which may be ahead of
+  // this render's props, so quick successive edits do not overwrite each other
+  const saveTags = (change: (current: string[]) => string[]) => {
+    queueRef.current = queueRef.current.then(async () => {
+      try {
+        const stored = await getRecording(recording.id);
+        const current = stored?.tags ?? tags;
+        const next = change(current);
+        if (next === current) return;
+        await updateMutation.mutateAsync({ id: recording.id, changes: { tags: next } });
+      } catch (error) {
+        console.error('Failed to update tags:', error);
+        toast.error('Could not update tags');
+      }
+    });
+  };
+
+  const addTag = (event: React.FormEvent) => {
+    event.preventDefault();
+    const tag = normalizeTag(draft);
+    setDraft('');
+    if (tag) {
+      saveTags(current => (current.includes(tag) ? current : [...current, tag]));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Tag className="h-3 w-3 text-muted-foreground mr-1" />
+      {tags.map(tag => (
+        <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+          {tag}
+          <button
+            type="button"
+            onClick={() => saveTags(current => current.filter(existing => existing !== tag))}
+            aria-label={`Remove tag ${tag}`}
+            className="rounded-full hover:text-destructive"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <form onSubmit={addTag} className="flex items-center gap-1">
+        <Input
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          placeholder="Add tag"
+          className="h-6 w-24 text-xs px-2"
+          maxLength={32}
+        />
+        {draft.trim() && (
+          <button type="submit" aria-label="Add tag" className="text-muted-foreground hover:text-foreground">
+            <Plus className="h-3 w-3" />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default TagEditor;
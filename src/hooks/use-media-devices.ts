@@ -0,0 +1,30 @@
+import * as React from "react"
+
+/**
+ * Lists the available cameras and microphones, refreshing when devices are
+ * plugged in or removed. Labels are only filled in once the user has granted
+ * media access, so call refresh() after getUserMedia succeeds.
+ */
+export function useMediaDevices() {
+  const [devices, setDevices] = React.useState<MediaDeviceInfo[]>([])
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setDevices(await navigator.mediaDevices.enumerateDevices())
+    } catch (error) {
+      console.error("Failed to enumerate media devices:", error)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    refresh()
+    navigator.mediaDevices.addEventListener("devicechange", refresh)
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh)
+  }, [refresh])
+
+  return {
+    videoInputs: devices.filter((device) => device.kind === "videoinput" && device.deviceId),
+    audioInputs: devices.filter((device) => device.kind === "audioinput" && device.deviceId),
+    refresh,
+  }
+}
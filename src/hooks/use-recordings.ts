@@ -0,0 +1,206 @@
+import * as React from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import {
+  createRecording,
+  deleteRecording,
+  deleteRecordingSession,
+  getRecording,
+  getRecordingAnalysis,
+  getRecordingBlob,
+  listInterruptedSessions,
+  listRecordings,
+  loadRecordingSession,
+  updateRecording,
+  updateRecordingAnalysis,
+  type NewRecording,
+  type RecordingAnalysis,
+  type RecordingUpdate,
+} from "@/utils/recordingStore"
+import { captureFrames, generateThumbnail } from "@/utils/videoThumbnail"
+import { importSessionBundle } from "@/utils/sessionBundle"
+import { summarizeSession } from "@/utils/sessionTrends"
+
+export const recordingKeys = {
+  all: ["recordings"] as const,
+  detail: (id: string) => ["recordings", id] as const,
+  analysis: (id: string) => ["recordings", id, "analysis"] as const,
+  interrupted: ["recordings", "interrupted-sessions"] as const,
+  summaries: ["recordings", "summaries"] as const,
+}
+
+export function useRecordings() {
+  return useQuery({
+    queryKey: recordingKeys.all,
+    queryFn: listRecordings,
+  })
+}
+
+export function useRecording(id: string | undefined) {
+  return useQuery({
+    queryKey: recordingKeys.detail(id ?? ""),
+    queryFn: () => getRecording(id!),
+    enabled: !!id,
+  })
+}
+
+export function useRecordingAnalysis(id: string | undefined) {
+  return useQuery({
+    queryKey: recordingKeys.analysis(id ?? ""),
+    queryFn: () => getRecordingAnalysis(id!),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Summarises every stored recording for the trends dashboard
+ */
+export function useSessionSummaries() {
+  return useQuery({
+    queryKey: recordingKeys.summaries,
+    queryFn: async () => {
+      const recordings = await listRecordings()
+      return Promise.all(
+        recordings.map(async (recording) =>
+          summarizeSession(recording, await getRecordingAnalysis(recording.id))
+        )
+      )
+    },
+  })
+}
+
+/**
+ * Captures stills from a recording's video at the given times, in milliseconds
+ */
+export function useRecordingFrames(id: string | undefined, times: number[]) {
+  return useQuery({
+    queryKey: [...recordingKeys.detail(id ?? ""), "frames", times] as const,
+    queryFn: async () => {
+      const blob = await getRecordingBlob(id!)
+      return blob ? captureFrames(blob, times) : new Map<number, string>()
+    },
+    enabled: !!id && times.length > 0,
+    staleTime: Infinity,
+  })
+}
+
+/**
+ * Loads a recording's video and exposes it as an object URL that is revoked
+ * when the id changes or the component unmounts.
+ */
+export function useRecordingVideoUrl(id: string | undefined) {
+  const [url, setUrl] = React.useState<string | null>(null)
+  const [isLoading, setIsLoading] = React.useState(!!id)
+
+  React.useEffect(() => {
+    if (!id) return
+
+    let objectUrl: string | null = null
+    let cancelled = false
+    setIsLoading(true)
+
+    getRecordingBlob(id)
+      .then((blob) => {
+        if (cancelled || !blob) return
+        objectUrl = URL.createObjectURL(blob)
+        setUrl(objectUrl)
+      })
+      .catch((error) => console.error("Failed to load recording video:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+      setUrl(null)
+    }
+  }, [id])
+
+  return { url, isLoading }
+}
+
+export function useCreateRecording() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: NewRecording) => createRecording(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordingKeys.all }),
+  })
+}
+
+export function useUpdateRecording() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: RecordingUpdate }) =>
+      updateRecording(id, changes),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordingKeys.all }),
+  })
+}
+
+export function useUpdateRecordingAnalysis() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<RecordingAnalysis> }) =>
+      updateRecordingAnalysis(id, changes),
+    onSuccess: (_analysis, { id }) =>
+      queryClient.invalidateQueries({ queryKey: recordingKeys.analysis(id) }),
+  })
+}
+
+export function useDeleteRecording() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteRecording(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordingKeys.all }),
+  })
+}
+
+export function useImportSessionBundle() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (file: File) => importSessionBundle(file),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordingKeys.all }),
+  })
+}
+
+export function useInterruptedSessions() {
+  return useQuery({
+    queryKey: recordingKeys.interrupted,
+    queryFn: listInterruptedSessions,
+  })
+}
+
+/**
+ * Saves the chunks of an interrupted session as a regular recording
+ */
+export function useRecoverSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const recording = await loadRecordingSession(id)
+      if (!recording) {
+        // Nothing was written before the interruption, so there is nothing to keep
+        await deleteRecordingSession(id)
+        return null
+      }
+      const thumbnail = await generateThumbnail(recording.blob)
+      return createRecording({ ...recording, thumbnail })
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordingKeys.all }),
+  })
+}
+
+export function useDiscardSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => deleteRecordingSession(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: recordingKeys.all }),
+  })
+}
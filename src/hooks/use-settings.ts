@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { getSettings, subscribeToSettings, updateSettings } from "@/utils/settings"
+
+/**
+ * The user's persisted studio settings, shared by every component that uses them
+ */
+export function useSettings() {
+  const settings = React.useSyncExternalStore(subscribeToSettings, getSettings)
+
+  return [settings, updateSettings] as const
+}
@@ -0,0 +1,56 @@
+import * as React from "react"
+
+// Analysis is sampled a few times a second, so faster updates would only
+// re-render the timeline chart without changing what is shown
+const DEFAULT_INTERVAL_MS = 100
+
+/**
+ * Tracks a video element's currentTime (in seconds). While playing it is
+ * updated at most once per interval; seeking and pausing update it at once.
+ * @param interval - Minimum time between updates during playback, in milliseconds
+ */
+export function useVideoTime(video: HTMLVideoElement | null, interval = DEFAULT_INTERVAL_MS) {
+  const [currentTime, setCurrentTime] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!video) return
+
+    let frame: number | null = null
+    let lastUpdate = 0
+
+    const update = () => setCurrentTime(video.currentTime)
+    const tick = (now: number) => {
+      if (now - lastUpdate >= interval) {
+        lastUpdate = now
+        update()
+      }
+      frame = requestAnimationFrame(tick)
+    }
+    const onPlay = () => {
+      if (frame === null) frame = requestAnimationFrame(tick)
+    }
+    const onPause = () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      frame = null
+      update()
+    }
+
+    video.addEventListener("play", onPlay)
+    video.addEventListener("pause", onPause)
+    video.addEventListener("ended", onPause)
+    video.addEventListener("seeked", update)
+    video.addEventListener("timeupdate", update)
+    if (!video.paused) onPlay()
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      video.removeEventListener("play", onPlay)
+      video.removeEventListener("pause", onPause)
+      video.removeEventListener("ended", onPause)
+      video.removeEventListener("seeked", update)
+      video.removeEventListener("timeupdate", update)
+    }
+  }, [video, interval])
+
+  return currentTime
+}
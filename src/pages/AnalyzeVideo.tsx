@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, FileVideo, ScanFace, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import Header from '@/components/Header';
+import { useCreateRecording, useRecording, useUpdateRecordingAnalysis } from '@/hooks/use-recordings';
+import { getRecordingBlob } from '@/utils/recordingStore';
+import { analyzeVideo, DEFAULT_SAMPLE_RATE, SAMPLE_RATES } from '@/utils/videoAnalysis';
+import { disposeEmotionDetectionModel, loadEmotionDetectionModel } from '@/utils/emotionDetection';
+import { disposeAttentionModel, loadAttentionModel } from '@/utils/attentionTracking';
+import { disposeGestureModel, loadGestureModel, MIN_WAVE_SAMPLE_RATE } from '@/utils/gestureDetection';
+import { generateThumbnail } from '@/utils/videoThumbnail';
+import { formatDuration } from '@/utils/format';
+
+type AnalysisStatus = 'idle' | 'loading' | 'analyzing' | 'saving';
+
+const STATUS_LABELS: Record<AnalysisStatus, string> = {
+  idle: '',
+  loading: 'Loading models...',
+  analyzing: 'Analyzing frames...',
+  saving: 'Saving analysis...',
+};
+
+const disposeModels = async () => {
+  disposeAttentionModel();
+  disposeGestureModel();
+  await disposeEmotionDetectionModel();
+};
+
+/**
+ * Analyzes a stored recording, or an uploaded video file, after the fact
+ */
+const AnalyzeVideo = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: recording } = useRecording(id);
+  const createRecording = useCreateRecording();
+  const updateAnalysis = useUpdateRecordingAnalysis();
+  const navigate = useNavigate();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [sampleRate, setSampleRate] = useState(DEFAULT_SAMPLE_RATE);
+  const [status, setStatus] = useState<AnalysisStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop analyzing if the user leaves mid-run; the models are freed once it unwinds
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const running = status !== 'idle';
+  const sourceName = id ? recording?.title : file?.name;
+
+  const startAnalysis = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setStatus('loading');
+
+    try {
+      const blob = id ? await getRecordingBlob(id) : file;
+      if (!blob) throw new Error('Video not found');
+
+      // Gaze and gestures are extras; without the emotion model there is nothing to analyze
+      const [emotionLoaded] = await Promise.all([loadEmotionDetectionModel(), loadAttentionModel(), loadGestureModel()]);
+      if (!emotionLoaded) throw new Error('Could not load the emotion model');
+
+      setStatus('analyzing');
+      const { duration, analysis } = await analyzeVideo(blob, {
+        sampleRate,
+        duration: id ? recording?.duration : undefined,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+
+      setStatus('saving');
+      if (id) {
+        await updateAnalysis.mutateAsync({ id, changes: analysis });
+        toast.success(`Analyzed ${analysis.emotions.length} frames`);
+        navigate(`/recordings/${id}`);
+      } else if (file) {
+        const created = await createRecording.mutateAsync({
+          title: file.name.replace(/\.[^.]+$/, ''),
+          blob: file,
+          duration,
+          thumbnail: await generateThumbnail(file),
+          analysis,
+        });
+        toast.success(`Analyzed ${analysis.emotions.length} frames`);
+        navigate(`/recordings/${created.id}`);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Video analysis failed:', error);
+        toast.error(error instanceof Error ? error.message : 'Video analysis failed');
+      }
+    } finally {
+      abortRef.current = null;
+      await disposeModels();
+      setStatus('idle');
+    }
+  };
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen pt-20 pb-8 px-4">
+        <div className="container max-w-2xl space-y-6">
+          <Link
+            to={id ? `/recordings/${id}` : '/recordings'}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            {id ? 'Back to recording' : 'My Recordings'}
+          </Link>
+
+          <div>
+            <h1 className="text-2xl font-bold">Analyze Video</h1>
+            <p className="text-muted-foreground">
+              Run emotion, gaze and gesture analysis over {id ? 'a saved recording' : 'a video file'} frame by frame
+            </p>
+          </div>
+
+          <Card className="p-4 space-y-4">
+            <div className="flex items-center gap-3 rounded-md border border-border/50 p-3">
+              <FileVideo className="h-5 w-5 shrink-0 text-studio-primary" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{sourceName ?? 'No video selected'}</p>
+                {id && recording && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatDuration(recording.duration)} · its current analysis will be replaced
+                  </p>
+                )}
+                {!id && file && (
+                  <p className="text-xs text-muted-foreground">
+                    {(file.size / 1_000_000).toFixed(1)} MB · will be saved to My Recordings
+                  </p>
+                )}
+              </div>
+              {!id && (
+                <Button variant="outline" size="sm" disabled={running} asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="mr-2 h-4 w-4" />
+                    {file ? 'Change' : 'Choose file'}
+                    <input
+                      type="file"
+                      accept="video/*"
+                      className="hidden"
+                      onChange={event => setFile(event.target.files?.[0] ?? null)}
+                    />
+                  </label>
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sample rate</Label>
+              <Select
+                value={String(sampleRate)}
+                onValueChange={value => setSampleRate(Number(value))}
+                disabled={running}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SAMPLE_RATES.map(rate => (
+                    <SelectItem key={rate} value={String(rate)}>
+                      {rate} {rate === 1 ? 'frame' : 'frames'} per second
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Higher rates catch brief expressions but take longer.
+                {sampleRate < MIN_WAVE_SAMPLE_RATE &&
+                  ` Waves are only detected at ${MIN_WAVE_SAMPLE_RATE} frames per second or more.`}
+              </p>
+            </div>
+
+            {running ? (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{STATUS_LABELS[status]}</span>
+                  <span className="text-muted-foreground tabular-nums">{Math.round(progress * 100)}%</span>
+                </div>
+                <Progress value={progress * 100} className="h-2" />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => abortRef.current?.abort()}
+                  disabled={status === 'saving'}
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button
+                className="w-full bg-studio-primary hover:bg-studio-primary/90"
+                onClick={startAnalysis}
+                disabled={id ? !recording : !file}
+              >
+                <ScanFace className="mr-2 h-4 w-4" />
+                Analyze video
+              </Button>
+            )}
+          </Card>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default AnalyzeVideo;
@@ -1,23 +1,113 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { MicOff, Mic, Video, VideoOff, StopCircle, Download, Gauge, Smile, Eye, Sparkles, Activity } from 'lucide-react';
+import { MicOff, Mic, Video, VideoOff, StopCircle, Pause, Play, Download, Gauge, Smile, Eye, Hand, Activity, Film, Monitor, PictureInPicture2, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { toast } from 'sonner';
 import { useToast } from '@/hooks/use-toast';
 import Header from '@/components/Header';
-import { loadEmotionDetectionModel, detectEmotion } from '@/utils/emotionDetection';
+import EmotionBars from '@/components/EmotionBars';
+import DeviceSelector from '@/components/DeviceSelector';
+import CompositePreview from '@/components/CompositePreview';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import {
+  loadEmotionDetectionModel,
+  detectEmotion,
+  disposeEmotionDetectionModel,
+  getAppliedCalibration
+} from '@/utils/emotionDetection';
+import {
+  createAttentionWindow,
+  disposeAttentionModel,
+  estimateAttention,
+  loadAttentionModel,
+  type AttentionEstimate,
+  type AttentionSample
+} from '@/utils/attentionTracking';
+import {
+  createGestureTracker,
+  detectHands,
+  disposeGestureModel,
+  GESTURE_LABELS,
+  loadGestureModel,
+  type GestureEvent,
+  type GestureTracker,
+  type GestureType
+} from '@/utils/gestureDetection';
+import { getEmotionBackendMetadata, listEmotionBackends } from '@/utils/emotionBackends';
+import { useSettings } from '@/hooks/use-settings';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { getSettings } from '@/utils/settings';
+import {
+  createRecordingStream,
+  DEFAULT_BUBBLE,
+  type BubblePlacement,
+  type CompositeLayout,
+  type RecordingStream
+} from '@/utils/recordingStream';
+import { generateThumbnail } from '@/utils/videoThumbnail';
+import { downloadBlob } from '@/utils/download';
+import { extensionForMimeType, negotiateRecordingFormat } from '@/utils/recordingFormats';
+import { createRecordingClock, type RecordingClock } from '@/utils/recordingClock';
+import {
+  createAudioMeter,
+  createAudioStatsTracker,
+  type AudioLevel,
+  type AudioMeter
+} from '@/utils/audioLevels';
+import { useCreateRecording } from '@/hooks/use-recordings';
+import { appendRecordingChunk, createRecordingSession, holdRecordingSession } from '@/utils/recordingStore';
+import InterruptedRecordings from '@/components/InterruptedRecordings';
+import type { EmotionSample } from '@/utils/emotionTimeline';
+import { createInferenceScheduler, type InferenceScheduler, type InferenceStats } from '@/utils/inferenceScheduler';
+import { createEmotionSmoother, type SmoothingSettings } from '@/utils/emotionSmoothing';
+import type { AppliedCalibration } from '@/utils/emotionCalibration';
+import {
+  CAPTURE_PROFILES,
+  getCaptureProfile,
+  readCaptureSettings,
+  videoConstraintsFor,
+  type CaptureSettings
+} from '@/utils/captureProfiles';
+
+interface ActiveRecording {
+  clock: RecordingClock;
+  title: string;
+  createdAt: string;
+  /** Resolves to the id of the persisted session, or null if it could not be created */
+  persistence: Promise<string | null>;
+  chunkIndex: number;
+  /** How many samples of each timeline have already been written with a chunk */
+  persisted: { emotions: number; attention: number; gestures: number };
+  releaseLock: () => void;
+}
 
 const Record = () => {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
   const [isVideoOn, setIsVideoOn] = useState(true);
   const [recordingTime, setRecordingTime] = useState(0);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [modelLoaded, setModelLoaded] = useState(false);
   const [loadingModel, setLoadingModel] = useState(false);
+  const [settings, updateSettings] = useSettings();
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedRecordingId, setSavedRecordingId] = useState<string | null>(null);
+  const [activeVideoDeviceId, setActiveVideoDeviceId] = useState<string | null>(null);
+  const [activeAudioDeviceId, setActiveAudioDeviceId] = useState<string | null>(null);
+  const [switchingDevice, setSwitchingDevice] = useState(false);
+  const [layout, setLayout] = useState<CompositeLayout>('camera');
+  const [bubble, setBubble] = useState<BubblePlacement>(DEFAULT_BUBBLE);
+  const [audioMeter, setAudioMeter] = useState<AudioMeter | null>(null);
+  const [clipping, setClipping] = useState(false);
+  const [micSilent, setMicSilent] = useState(false);
+  const { videoInputs, audioInputs, refresh: refreshDevices } = useMediaDevices();
   
   // Emotion analysis data with proper typing
   const [emotions, setEmotions] = useState({ 
@@ -31,26 +121,242 @@ const Record = () => {
   });
   const [detectedEmotion, setDetectedEmotion] = useState<string>("neutral");
   const [confidence, setConfidence] = useState<number>(0);
-  const [eyeMovement, setEyeMovement] = useState({ focused: 0.8, distracted: 0.2 });
-  const [gestures, setGestures] = useState({ none: 0.9, handRaise: 0.1 });
+  const [faceDetected, setFaceDetected] = useState(true);
+  const [attentionLoaded, setAttentionLoaded] = useState(false);
+  const [eyeMovement, setEyeMovement] = useState({ focused: 0, distracted: 0 });
+  const [attention, setAttention] = useState<AttentionEstimate | null>(null);
+  const [gesturesLoaded, setGesturesLoaded] = useState(false);
+  const [activeGestures, setActiveGestures] = useState<GestureType[]>([]);
+  const [gestureCount, setGestureCount] = useState(0);
+  const [inferenceStats, setInferenceStats] = useState<InferenceStats | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const recordingStreamRef = useRef<RecordingStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const audioMeterRef = useRef<AudioMeter | null>(null);
+  const audioStatsRef = useRef(createAudioStatsTracker());
+  const lastLevelAtRef = useRef(performance.now());
+  const clipTimeoutRef = useRef<number | null>(null);
   const chunksRef = useRef<BlobPart[]>([]);
   const timerRef = useRef<number | null>(null);
-  const emotionDetectionRef = useRef<number | null>(null);
+  const emotionDetectionRef = useRef<InferenceScheduler | null>(null);
+  const attentionTrackingRef = useRef<InferenceScheduler | null>(null);
+  const attentionTimelineRef = useRef<AttentionSample[]>([]);
+  const latestAttentionRef = useRef<AttentionEstimate | null>(null);
+  const gestureTrackingRef = useRef<InferenceScheduler | null>(null);
+  const gestureTrackerRef = useRef<GestureTracker | null>(null);
+  const gestureEventsRef = useRef<GestureEvent[]>([]);
+  const recordingSessionRef = useRef<ActiveRecording | null>(null);
+  const emotionTimelineRef = useRef<EmotionSample[]>([]);
+  const smoothingRef = useRef<SmoothingSettings | null>(null);
+  const calibrationRef = useRef<AppliedCalibration | null>(null);
+  const captureSettingsRef = useRef<CaptureSettings | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const createRecording = useCreateRecording();
+  
+  // Measured figures for the selected model, if it has been calibrated in settings
+  const calibration = settings.calibrations[settings.emotionBackend];
+  const uncertain = confidence < settings.uncertaintyThreshold;
+  
+  // Ask for a specific device if one was chosen, without failing if it is gone
+  const deviceConstraint = (deviceId: string | null): MediaTrackConstraints | boolean =>
+    deviceId ? { deviceId: { ideal: deviceId } } : true;
+  
+  // Cameras are always opened at the chosen profile's resolution and frame rate
+  const videoConstraint = (deviceId: ConstrainDOMString | undefined): MediaTrackConstraints =>
+    videoConstraintsFor(getCaptureProfile(getSettings().captureProfile), deviceId);
+  
+  // Swap the camera or microphone without interrupting preview or recording
+  const switchDevice = async (kind: 'video' | 'audio', deviceId: string | null) => {
+    const stream = streamRef.current;
+    if (!stream) return;
+    
+    setSwitchingDevice(true);
+    try {
+      const newStream = await navigator.mediaDevices.getUserMedia({
+        [kind]: kind === 'video'
+          ? videoConstraint(deviceId ? { exact: deviceId } : undefined)
+          : deviceId ? { deviceId: { exact: deviceId } } : true
+      });
+      const [newTrack] = kind === 'video' ? newStream.getVideoTracks() : newStream.getAudioTracks();
+      const oldTracks = kind === 'video' ? stream.getVideoTracks() : stream.getAudioTracks();
+      
+      // Carry over the mute / camera-off state
+      newTrack.enabled = oldTracks[0]?.enabled ?? true;
+      oldTracks.forEach(track => {
+        stream.removeTrack(track);
+        track.stop();
+      });
+      stream.addTrack(newTrack);
+      attachTrack(newTrack);
+      
+      if (kind === 'video' && videoRef.current) {
+        // Re-assign so the preview picks up the new track
+        videoRef.current.srcObject = null;
+        videoRef.current.srcObject = stream;
+      }
+      
+      if (deviceId) {
+        updateSettings(kind === 'video' ? { videoDeviceId: deviceId } : { audioDeviceId: deviceId });
+      }
+    } catch (error) {
+      console.error(`Failed to switch ${kind} device:`, error);
+      toast({
+        title: kind === 'video' ? "Could not switch camera" : "Could not switch microphone",
+        description: "The device may be in use by another application.",
+        variant: "destructive"
+      });
+    } finally {
+      setSwitchingDevice(false);
+    }
+  };
+  
+  // Re-open the camera at a new profile's resolution and frame rate
+  const changeCaptureProfile = async (id: string) => {
+    const profile = getCaptureProfile(id);
+    updateSettings({ captureProfile: profile.id });
+    recordingStreamRef.current?.setFrameRate(profile.frameRate);
+    
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+    try {
+      await track.applyConstraints(videoConstraintsFor(profile));
+    } catch (error) {
+      console.error('Failed to apply capture profile:', error);
+      toast({
+        title: "Could not apply profile",
+        description: "Your camera does not support this resolution.",
+        variant: "destructive"
+      });
+    }
+  };
+  
+  // Drop the shared screen and go back to recording the camera alone
+  const stopScreenShare = () => {
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    recordingStreamRef.current?.setScreenSource(null);
+    recordingStreamRef.current?.setLayout('camera');
+    setLayout('camera');
+  };
+  
+  // Switch between camera, screen and screen with a camera bubble
+  const changeLayout = async (next: CompositeLayout) => {
+    const recordingStream = recordingStreamRef.current;
+    if (!recordingStream) return;
+    
+    if (next === 'camera') {
+      stopScreenShare();
+      return;
+    }
+    
+    if (!screenStreamRef.current) {
+      const profile = getCaptureProfile(settings.captureProfile);
+      let screen: MediaStream;
+      try {
+        screen = await navigator.mediaDevices.getDisplayMedia({
+          video: {
+            width: { max: profile.width },
+            height: { max: profile.height },
+            frameRate: { ideal: profile.frameRate }
+          },
+          audio: true
+        });
+      } catch (error) {
+        // Cancelling the browser's picker is not an error worth reporting
+        if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+        console.error('Failed to share screen:', error);
+        toast({
+          title: "Could not share screen",
+          description: "Screen capture is not available in this browser.",
+          variant: "destructive"
+        });
+        return;
+      }
+      
+      const [screenVideo] = screen.getVideoTracks();
+      screenStreamRef.current = screen;
+      recordingStream.setScreenSource(screenVideo, screen.getAudioTracks()[0] ?? null);
+      
+      // Sharing can also be stopped from the browser's own controls
+      screenVideo.addEventListener('ended', () => {
+        if (screenStreamRef.current !== screen) return;
+        stopScreenShare();
+        toast({
+          title: "Screen sharing stopped",
+          description: "Recording the camera only."
+        });
+      });
+    }
+    
+    recordingStream.setLayout(next);
+    setLayout(next);
+  };
+  
+  const changeBubble = (next: BubblePlacement) => {
+    setBubble(next);
+    recordingStreamRef.current?.setBubble(next);
+  };
+  
+  // Flag clipping and, while recording, collect loudness stats. The meter
+  // shows the level itself, so this page does not re-render with every window.
+  const handleAudioLevel = (level: AudioLevel) => {
+    const now = performance.now();
+    const duration = now - lastLevelAtRef.current;
+    lastLevelAtRef.current = now;
+    
+    // Hold the clip indicator so a single clipped window is still noticeable
+    if (level.clipping) {
+      setClipping(true);
+      if (clipTimeoutRef.current) clearTimeout(clipTimeoutRef.current);
+      clipTimeoutRef.current = window.setTimeout(() => setClipping(false), 1500);
+    }
+    
+    // A muted or paused mic is silent on purpose, so it is neither measured nor warned about
+    const recording = mediaRecorderRef.current?.state === 'recording';
+    const micOn = streamRef.current?.getAudioTracks().some(track => track.enabled);
+    if (recording && micOn) {
+      audioStatsRef.current.push(level, duration);
+      const limit = getSettings().silenceWarningSeconds;
+      setMicSilent(limit > 0 && audioStatsRef.current.silentFor() >= limit * 1000);
+    } else {
+      setMicSilent(false);
+    }
+  };
+  
+  // Route a track into the recorded stream and follow it if the device is unplugged
+  const attachTrack = (track: MediaStreamTrack) => {
+    const deviceId = track.getSettings().deviceId ?? null;
+    if (track.kind === 'video') {
+      recordingStreamRef.current?.setVideoSource(track);
+      setActiveVideoDeviceId(deviceId);
+    } else {
+      recordingStreamRef.current?.setAudioSource(track);
+      audioMeterRef.current?.setSource(track);
+      setActiveAudioDeviceId(deviceId);
+    }
+    
+    track.addEventListener('ended', () => {
+      toast({
+        title: track.kind === 'video' ? "Camera disconnected" : "Microphone disconnected",
+        description: "Switching to the default device."
+      });
+      switchDevice(track.kind as 'video' | 'audio', null);
+    });
+  };
   
   // Initialize camera and load emotion model
   useEffect(() => {
     const init = async () => {
       try {
-        // Initialize camera
+        // Initialize camera with the devices chosen last time
+        const { videoDeviceId, audioDeviceId, captureProfile } = getSettings();
         const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: true, 
-          audio: true 
+          video: videoConstraint(videoDeviceId ? { ideal: videoDeviceId } : undefined), 
+          audio: deviceConstraint(audioDeviceId) 
         });
         streamRef.current = stream;
         
@@ -58,21 +364,36 @@ const Record = () => {
           videoRef.current.srcObject = stream;
         }
         
-        // Load emotion detection model
+        // Everything is recorded from a stable stream so devices can be swapped mid-recording
+        recordingStreamRef.current = createRecordingStream(getCaptureProfile(captureProfile).frameRate);
+        const audioMeter = createAudioMeter();
+        audioMeter.subscribe(level => handleAudioLevel(level));
+        audioMeterRef.current = audioMeter;
+        setAudioMeter(audioMeter);
+        stream.getTracks().forEach(attachTrack);
+        
+        // Device labels are only available once access has been granted
+        refreshDevices();
+        
+        // Load emotion detection model, and the face landmarker alongside it
         setLoadingModel(true);
+        const attentionLoaded = loadAttentionModel();
+        const gesturesLoaded = loadGestureModel();
         const loaded = await loadEmotionDetectionModel();
         setModelLoaded(loaded);
+        setAttentionLoaded(await attentionLoaded);
+        setGesturesLoaded(await gesturesLoaded);
         setLoadingModel(false);
         
         if (loaded) {
           toast({
             title: "Model loaded successfully",
-            description: "Emotion detection model is ready to use with enhanced accuracy",
+            description: "Emotion detection model is ready",
           });
         } else {
           toast({
             title: "Model loading failed",
-            description: "Using fallback simulated analysis instead",
+            description: "Recording still works, but emotions will not be analyzed",
             variant: "destructive"
           });
         }
@@ -91,71 +412,309 @@ const Record = () => {
     
     // Cleanup
     return () => {
+      // Leaving mid-recording keeps what was captured as an interrupted session:
+      // the last chunk is written, then the lock is released so it can be recovered
+      const recorder = mediaRecorderRef.current;
+      const active = recordingSessionRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = () => {
+          active?.persistence.then(() => active.releaseLock());
+        };
+        recorder.stop();
+      }
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
+      screenStreamRef.current?.getTracks().forEach(track => track.stop());
+      recordingStreamRef.current?.dispose();
+      audioMeterRef.current?.dispose();
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
-      if (emotionDetectionRef.current) {
-        clearInterval(emotionDetectionRef.current);
+      if (clipTimeoutRef.current) {
+        clearTimeout(clipTimeoutRef.current);
       }
+      emotionDetectionRef.current?.stop();
+      attentionTrackingRef.current?.stop();
+      gestureTrackingRef.current?.stop();
+      // Cleanup cannot wait, but disposal is queued ahead of any later load
+      disposeEmotionDetectionModel();
+      disposeAttentionModel();
+      disposeGestureModel();
     };
   }, [navigate]);
   
+  useEffect(() => {
+    if (micSilent) {
+      toast({
+        title: "Microphone is silent",
+        description: "No sound has been picked up for a while. Check that the right microphone is selected.",
+        variant: "destructive"
+      });
+    }
+  }, [micSilent, toast]);
+  
+  // Chunks are persisted as they arrive, but the last second would still be lost
+  useEffect(() => {
+    if (!isRecording) return;
+    
+    const warnBeforeLeaving = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', warnBeforeLeaving);
+    return () => window.removeEventListener('beforeunload', warnBeforeLeaving);
+  }, [isRecording]);
+  
+  // Switch to a different emotion model
+  const changeEmotionBackend = async (backend: string) => {
+    updateSettings({ emotionBackend: backend });
+    
+    setLoadingModel(true);
+    const loaded = await loadEmotionDetectionModel(backend);
+    setModelLoaded(loaded);
+    setLoadingModel(false);
+    
+    const label = getEmotionBackendMetadata(backend)?.label;
+    if (loaded) {
+      toast({
+        title: "Model switched",
+        description: `Now using ${label} for emotion detection`,
+      });
+    } else {
+      toast({
+        title: "Model loading failed",
+        description: `${label} could not be loaded, so emotions will not be analyzed`,
+        variant: "destructive"
+      });
+    }
+  };
+  
   // Start emotion detection
   const startEmotionDetection = () => {
     if (!videoRef.current || !modelLoaded) return;
     
-    // Run emotion detection every 200ms for more frequent updates
-    emotionDetectionRef.current = window.setInterval(async () => {
-      if (videoRef.current && isVideoOn) {
-        const result = await detectEmotion(videoRef.current);
+    // One inference in flight at a time, paced by how fast the model responds
+    setInferenceStats(null);
+    
+    // Smooth the raw per-frame scores so the displayed label does not flicker
+    smoothingRef.current = settings.smoothing;
+    calibrationRef.current = getAppliedCalibration();
+    const smoother = createEmotionSmoother(settings.smoothing);
+    
+    const scheduler = createInferenceScheduler({
+      infer: async () => {
+        const video = videoRef.current;
+        const cameraOn = streamRef.current?.getVideoTracks().some(track => track.enabled);
+        if (!video || !cameraOn) return null;
+        return detectEmotion(video);
+      },
+      onResult: (result, capturedAt) => {
+        const smoothed = smoother.push(result.allEmotions);
         
-        if (result) {
-          // Update emotion state with detected values - using the properly formatted emotions
-          setEmotions(result.allEmotions);
-          setDetectedEmotion(result.emotion);
-          setConfidence(result.confidence);
-          
-          // Also update simulated eye movement and gestures
-          // In a real implementation, these would come from separate detection models
-          updateSimulatedAnalysis();
+        // Timestamp the frame when it was captured, not when inference finished,
+        // in the video's timebase; frames captured while paused are not in the video
+        const time = recordingSessionRef.current?.clock.toMediaTime(capturedAt);
+        if (time != null) {
+          emotionTimelineRef.current.push({
+            time,
+            emotion: result.emotion,
+            confidence: result.confidence,
+            scores: result.allEmotions,
+            faceDetected: result.faceDetected,
+            smoothed
+          });
+        }
+        
+        // Update emotion state with the smoothed values
+        setEmotions(smoothed.scores);
+        setDetectedEmotion(smoothed.emotion);
+        setConfidence(smoothed.confidence);
+        setFaceDetected(result.faceDetected !== false);
+      },
+      onStats: setInferenceStats
+    });
+    
+    emotionDetectionRef.current = scheduler;
+    scheduler.start();
+  };
+  
+  // Track head pose and gaze from the raw camera, at whatever rate the landmarker sustains
+  const startAttentionTracking = () => {
+    if (!videoRef.current || !attentionLoaded) return;
+    
+    const recentAttention = createAttentionWindow();
+    const scheduler = createInferenceScheduler({
+      infer: async () => {
+        const video = videoRef.current;
+        const cameraOn = streamRef.current?.getVideoTracks().some(track => track.enabled);
+        if (!video || !cameraOn) return null;
+        return estimateAttention(video);
+      },
+      onResult: (estimate, capturedAt) => {
+        const time = recordingSessionRef.current?.clock.toMediaTime(capturedAt);
+        if (time != null) {
+          attentionTimelineRef.current.push({ ...estimate, time });
         }
+        latestAttentionRef.current = estimate;
+        setAttention(estimate);
+        setEyeMovement(recentAttention.push(estimate, capturedAt));
+      }
+    });
+    
+    attentionTrackingRef.current = scheduler;
+    scheduler.start();
+  };
+  
+  // Classify hand poses into gesture events, using the latest face position for face touching
+  const startGestureTracking = () => {
+    if (!videoRef.current || !gesturesLoaded) return;
+    
+    const tracker = createGestureTracker();
+    gestureTrackerRef.current = tracker;
+    setActiveGestures([]);
+    setGestureCount(0);
+    
+    const scheduler = createInferenceScheduler({
+      infer: async () => {
+        const video = videoRef.current;
+        const cameraOn = streamRef.current?.getVideoTracks().some(track => track.enabled);
+        if (!video || !cameraOn) return null;
+        const hands = detectHands(video);
+        return hands && { hands, aspectRatio: video.videoWidth / video.videoHeight };
+      },
+      onResult: ({ hands, aspectRatio }, capturedAt) => {
+        const time = recordingSessionRef.current?.clock.toMediaTime(capturedAt);
+        if (time == null) return;
+        
+        const face = latestAttentionRef.current;
+        const { active, ended } = tracker.push(hands, time, aspectRatio, face?.faceDetected ? face.faceBox : undefined);
+        recordGestureEvents(ended);
+        setActiveGestures(active);
       }
-    }, 200);  // Increased frequency for better real-time response
+    });
+    
+    gestureTrackingRef.current = scheduler;
+    scheduler.start();
+  };
+  
+  const recordGestureEvents = (events: GestureEvent[]) => {
+    if (events.length === 0) return;
+    gestureEventsRef.current.push(...events);
+    setGestureCount(gestureEventsRef.current.length);
   };
   
   // Start recording
   const startRecording = () => {
-    if (!streamRef.current) return;
+    const recordingStream = recordingStreamRef.current;
+    if (!recordingStream) return;
     
-    chunksRef.current = [];
-    const mediaRecorder = new MediaRecorder(streamRef.current, {
-      mimeType: 'video/webm;codecs=vp9'  // Using VP9 for better quality
-    });
+    // Use the profile's best codec that this browser can actually encode
+    const profile = getCaptureProfile(settings.captureProfile);
+    const format = negotiateRecordingFormat(profile.codecs);
+    let mediaRecorder: MediaRecorder;
+    try {
+      mediaRecorder = new MediaRecorder(recordingStream.stream, {
+        ...(format.mimeType ? { mimeType: format.mimeType } : {}),
+        videoBitsPerSecond: profile.videoBitsPerSecond,
+        audioBitsPerSecond: profile.audioBitsPerSecond
+      });
+    } catch (error) {
+      console.error('Failed to create media recorder:', error);
+      toast({
+        title: "Recording not supported",
+        description: "This browser cannot record video in any supported format.",
+        variant: "destructive"
+      });
+      return;
+    }
     mediaRecorderRef.current = mediaRecorder;
     
+    recordingStream.resume();
+    audioMeterRef.current?.resume();
+    audioStatsRef.current.reset();
+    chunksRef.current = [];
+    emotionTimelineRef.current = [];
+    attentionTimelineRef.current = [];
+    gestureEventsRef.current = [];
+    latestAttentionRef.current = null;
+    captureSettingsRef.current = readCaptureSettings(profile, streamRef.current?.getVideoTracks()[0]);
+    if (layout !== 'camera') {
+      // The screen sets the output size, not the camera
+      captureSettingsRef.current = {
+        ...captureSettingsRef.current,
+        ...recordingStream.getOutputSize(),
+        layout
+      };
+    }
+    
     mediaRecorder.ondataavailable = (event) => {
       if (event.data.size > 0) {
         chunksRef.current.push(event.data);
+        persistChunk(event.data);
       }
     };
     
     mediaRecorder.onstop = () => {
-      const blob = new Blob(chunksRef.current, { type: 'video/webm' });
+      // The recorder reports what it actually produced, which may carry more detail than was asked for
+      const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || format.mimeType || 'video/webm' });
       setRecordedBlob(blob);
+      saveRecording(blob);
+    };
+    
+    // Re-anchor the timeline to the moment the recorder actually started
+    mediaRecorder.onstart = () => {
+      recordingSessionRef.current?.clock.anchor();
     };
     
     // Start recording and timer
     mediaRecorder.start(1000);  // Capture in 1-second chunks
+    const createdAt = new Date().toISOString();
+    const title = `Recording ${new Date(createdAt).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })}`;
+    const recording: ActiveRecording = {
+      clock: createRecordingClock(),
+      title,
+      createdAt,
+      persistence: Promise.resolve(null),
+      chunkIndex: 0,
+      persisted: { emotions: 0, attention: 0, gestures: 0 },
+      releaseLock: () => {}
+    };
+    const sessionId = crypto.randomUUID();
+    recording.persistence = holdRecordingSession(sessionId).then(release => {
+      recording.releaseLock = release;
+      return createRecordingSession({
+        id: sessionId,
+        title,
+        createdAt,
+        mimeType: mediaRecorder.mimeType || format.mimeType || 'video/webm',
+        capture: captureSettingsRef.current ?? undefined,
+        smoothing: settings.smoothing,
+        calibration: calibrationRef.current ?? undefined
+      });
+    }).then(
+      session => session.id,
+      error => {
+        // Recording still works, it just cannot be recovered after a crash
+        console.error('Failed to start persisting recording:', error);
+        return null;
+      }
+    );
+    recordingSessionRef.current = recording;
     setIsRecording(true);
-    timerRef.current = window.setInterval(() => {
-      setRecordingTime(prev => prev + 1);
-    }, 1000);
+    setIsPaused(false);
+    setRecordingTime(0);
+    setSavedRecordingId(null);
+    startTimer();
     
     // Start emotion detection
     startEmotionDetection();
+    startAttentionTracking();
+    startGestureTracking();
     
     toast({
       title: "Recording started",
@@ -163,26 +722,150 @@ const Record = () => {
     });
   };
   
+  // Write a chunk with the samples analysed since the previous one, in order
+  const persistChunk = (blob: Blob) => {
+    const recording = recordingSessionRef.current;
+    if (!recording) return;
+    
+    const chunk = {
+      index: recording.chunkIndex++,
+      blob,
+      duration: recording.clock.elapsed() / 1000,
+      emotions: emotionTimelineRef.current.slice(recording.persisted.emotions),
+      attention: attentionTimelineRef.current.slice(recording.persisted.attention),
+      gestures: gestureEventsRef.current.slice(recording.persisted.gestures)
+    };
+    recording.persisted = {
+      emotions: emotionTimelineRef.current.length,
+      attention: attentionTimelineRef.current.length,
+      gestures: gestureEventsRef.current.length
+    };
+    const changes = { pauses: recording.clock.pauses(), audio: audioStatsRef.current.summary() };
+    
+    recording.persistence = recording.persistence.then(sessionId => {
+      if (!sessionId) return null;
+      return appendRecordingChunk(sessionId, chunk, changes).then(
+        () => sessionId,
+        error => {
+          console.error('Failed to persist recording chunk:', error);
+          return sessionId;
+        }
+      );
+    });
+  };
+  
+  // The displayed time follows the clock, so pauses are left out
+  const startTimer = () => {
+    timerRef.current = window.setInterval(() => {
+      const clock = recordingSessionRef.current?.clock;
+      if (clock) setRecordingTime(Math.floor(clock.elapsed() / 1000));
+    }, 250);
+  };
+  
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+  
+  // Pause the recorder, the timer and emotion detection together
+  const pauseRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'recording') return;
+    
+    mediaRecorder.pause();
+    recordingSessionRef.current?.clock.pause();
+    setIsPaused(true);
+    stopTimer();
+    emotionDetectionRef.current?.stop();
+    attentionTrackingRef.current?.stop();
+    gestureTrackingRef.current?.stop();
+  };
+  
+  const resumeRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || mediaRecorder.state !== 'paused') return;
+    
+    mediaRecorder.resume();
+    recordingSessionRef.current?.clock.resume();
+    setIsPaused(false);
+    startTimer();
+    emotionDetectionRef.current?.start();
+    attentionTrackingRef.current?.start();
+    gestureTrackingRef.current?.start();
+  };
+  
+  // Save the finished recording to the local library
+  const saveRecording = async (blob: Blob) => {
+    const session = recordingSessionRef.current;
+    if (!session) return;
+    
+    setIsSaving(true);
+    try {
+      const thumbnail = await generateThumbnail(blob);
+      // Saving removes the persisted chunks in the same transaction
+      const sessionId = await session.persistence;
+      const saved = await createRecording.mutateAsync({
+        title: session.title,
+        sessionId: sessionId ?? undefined,
+        blob,
+        duration: session.clock.elapsed() / 1000,
+        thumbnail,
+        createdAt: session.createdAt,
+        capture: captureSettingsRef.current ?? undefined,
+        analysis: {
+          emotions: [...emotionTimelineRef.current].sort((a, b) => a.time - b.time),
+          attention: [...attentionTimelineRef.current].sort((a, b) => a.time - b.time),
+          gestures: [...gestureEventsRef.current].sort((a, b) => a.time - b.time),
+          smoothing: smoothingRef.current ?? undefined,
+          calibration: calibrationRef.current ?? undefined,
+          pauses: session.clock.pauses(),
+          audio: audioStatsRef.current.summary()
+        }
+      });
+      setSavedRecordingId(saved.id);
+      toast({
+        title: "Recording complete",
+        description: "Your video has been saved to My Recordings."
+      });
+    } catch (error) {
+      console.error('Failed to save recording:', error);
+      toast({
+        title: "Could not save recording",
+        description: "The recording is still available to download.",
+        variant: "destructive"
+      });
+    } finally {
+      // If saving failed, the persisted session is offered for recovery next time
+      await session.persistence;
+      session.releaseLock();
+      setIsSaving(false);
+    }
+  };
+  
   // Stop recording
   const stopRecording = () => {
     if (mediaRecorderRef.current && isRecording) {
+      recordingSessionRef.current?.clock.stop();
       mediaRecorderRef.current.stop();
       setIsRecording(false);
-      
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+      setIsPaused(false);
+      stopTimer();
       
       if (emotionDetectionRef.current) {
-        clearInterval(emotionDetectionRef.current);
+        emotionDetectionRef.current.stop();
         emotionDetectionRef.current = null;
       }
       
-      toast({
-        title: "Recording complete",
-        description: "Your video has been recorded and is ready for download."
-      });
+      attentionTrackingRef.current?.stop();
+      attentionTrackingRef.current = null;
+      
+      // Gestures still being held end with the recording
+      gestureTrackingRef.current?.stop();
+      gestureTrackingRef.current = null;
+      recordGestureEvents(gestureTrackerRef.current?.flush() ?? []);
+      setActiveGestures([]);
     }
   };
   
@@ -211,14 +894,7 @@ const Record = () => {
   // Download recorded video
   const downloadVideo = () => {
     if (recordedBlob) {
-      const url = URL.createObjectURL(recordedBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `recording-${new Date().toISOString()}.webm`;
-      document.body.appendChild(a);
-      a.click();
-      URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      downloadBlob(recordedBlob, `recording-${new Date().toISOString()}.${extensionForMimeType(recordedBlob.type)}`);
     }
   };
   
@@ -229,25 +905,13 @@ const Record = () => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
   
-  // Simulated analysis updates for eye movement and gestures
-  const updateSimulatedAnalysis = () => {
-    // Generate random values for simulated analysis
-    setEyeMovement({
-      focused: Math.random() * 0.3 + 0.6, // Bias toward focused
-      distracted: Math.random() * 0.3
-    });
-    
-    setGestures({
-      none: Math.random() * 0.2 + 0.7, // Bias toward none
-      handRaise: Math.random() * 0.2
-    });
-  };
-  
   return (
     <>
       <Header />
       <main className="min-h-screen pt-20 pb-8 px-4">
         <div className="container max-w-5xl">
+          {!isRecording && <InterruptedRecordings />}
+          
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Main video area */}
             <div className="lg:col-span-2 space-y-4">
@@ -257,10 +921,24 @@ const Record = () => {
                     ref={videoRef} 
                     autoPlay 
                     muted={isMuted} 
-                    className={`w-full h-full object-cover ${!isVideoOn ? 'hidden' : ''}`}
+                    className={`w-full h-full object-cover ${!isVideoOn ? 'hidden' : ''} ${
+                      // Kept playing but out of sight, since emotion detection reads from it
+                      layout !== 'camera' ? 'absolute inset-0 opacity-0 pointer-events-none' : ''
+                    }`}
                   />
                   
-                  {!isVideoOn && (
+                  {layout !== 'camera' && (
+                    <div className="absolute inset-0">
+                      <CompositePreview
+                        stream={recordingStreamRef.current?.stream ?? null}
+                        bubble={bubble}
+                        onBubbleChange={changeBubble}
+                        showBubble={layout === 'pip'}
+                      />
+                    </div>
+                  )}
+                  
+                  {!isVideoOn && layout === 'camera' && (
                     <div className="absolute inset-0 flex items-center justify-center bg-card">
                       <div className="flex flex-col items-center">
                         <VideoOff size={48} className="text-muted-foreground mb-2" />
@@ -271,8 +949,14 @@ const Record = () => {
                   
                   {isRecording && (
                     <div className="absolute top-4 left-4 flex items-center gap-2">
-                      <div className="h-3 w-3 rounded-full bg-destructive animate-pulse-recording" />
-                      <span className="text-sm font-medium text-white">REC {formatTime(recordingTime)}</span>
+                      {isPaused ? (
+                        <Pause className="h-3 w-3 text-white" />
+                      ) : (
+                        <div className="h-3 w-3 rounded-full bg-destructive animate-pulse-recording" />
+                      )}
+                      <span className="text-sm font-medium text-white">
+                        {isPaused ? 'PAUSED' : 'REC'} {formatTime(recordingTime)}
+                      </span>
                     </div>
                   )}
 
@@ -280,8 +964,18 @@ const Record = () => {
                     <div className="absolute top-4 right-4 bg-black/70 px-3 py-1 rounded-md flex items-center gap-2">
                       <Smile className="h-4 w-4 text-studio-primary" />
                       <span className="text-sm font-medium text-white capitalize">
-                        {detectedEmotion} ({Math.round(confidence * 100)}%)
+                        {uncertain ? 'Uncertain' : detectedEmotion} ({Math.round(confidence * 100)}%)
                       </span>
+                      {!faceDetected && (
+                        <span className="text-xs text-muted-foreground">No face found</span>
+                      )}
+                    </div>
+                  )}
+                  
+                  {isRecording && micSilent && (
+                    <div className="absolute bottom-4 left-4 bg-destructive/90 px-3 py-1 rounded-md flex items-center gap-2">
+                      <MicOff className="h-4 w-4 text-white" />
+                      <span className="text-sm font-medium text-white">Microphone silent</span>
                     </div>
                   )}
                 </div>
@@ -322,13 +1016,22 @@ const Record = () => {
                       )}
                     </Button>
                   ) : (
-                    <Button 
-                      onClick={stopRecording} 
-                      variant="destructive"
-                    >
-                      <StopCircle className="mr-2 h-4 w-4" />
-                      End Recording
-                    </Button>
+                    <>
+                      <Button 
+                        onClick={isPaused ? resumeRecording : pauseRecording} 
+                        variant="outline"
+                      >
+                        {isPaused ? <Play className="mr-2 h-4 w-4" /> : <Pause className="mr-2 h-4 w-4" />}
+                        {isPaused ? 'Resume' : 'Pause'}
+                      </Button>
+                      <Button 
+                        onClick={stopRecording} 
+                        variant="destructive"
+                      >
+                        <StopCircle className="mr-2 h-4 w-4" />
+                        End Recording
+                      </Button>
+                    </>
                   )}
                   
                   {recordedBlob && (
@@ -341,21 +1044,101 @@ const Record = () => {
                     </Button>
                   )}
                 </div>
+                
+                {/* Device selection, switchable during recording */}
+                <div className="px-4 pb-4 space-y-2">
+                  <DeviceSelector
+                    videoInputs={videoInputs}
+                    audioInputs={audioInputs}
+                    videoDeviceId={activeVideoDeviceId}
+                    audioDeviceId={activeAudioDeviceId}
+                    onVideoDeviceChange={deviceId => switchDevice('video', deviceId)}
+                    onAudioDeviceChange={deviceId => switchDevice('audio', deviceId)}
+                    disabled={switchingDevice}
+                  />
+                  <AudioLevelMeter meter={audioMeter} clipping={clipping} muted={isMuted} />
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={layout}
+                      onValueChange={value => value && changeLayout(value as CompositeLayout)}
+                      className="justify-start"
+                    >
+                      <ToggleGroupItem value="camera" className="text-xs gap-1">
+                        <Video className="h-3 w-3" />
+                        Camera
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="screen" className="text-xs gap-1">
+                        <Monitor className="h-3 w-3" />
+                        Screen
+                      </ToggleGroupItem>
+                      <ToggleGroupItem value="pip" className="text-xs gap-1">
+                        <PictureInPicture2 className="h-3 w-3" />
+                        Screen + Camera
+                      </ToggleGroupItem>
+                    </ToggleGroup>
+                    {layout === 'pip' && (
+                      <p className="text-xs text-muted-foreground">
+                        Drag the bubble to move it, or drag its edge to resize it.
+                      </p>
+                    )}
+                  </div>
+                  {/* The recorder's bitrate is fixed once it starts, so profiles only change between takes */}
+                  <Select
+                    value={settings.captureProfile}
+                    onValueChange={changeCaptureProfile}
+                    disabled={isRecording}
+                  >
+                    <SelectTrigger className="h-8 text-xs gap-2">
+                      <Film className="h-3 w-3 shrink-0 text-muted-foreground" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CAPTURE_PROFILES.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id} className="text-xs">
+                          {profile.label} — {profile.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </Card>
               
               {!isRecording && recordedBlob && (
                 <Card className="p-4 space-y-4">
                   <h3 className="font-medium">Recording Complete</h3>
-                  <p className="text-sm text-muted-foreground">Your recording is ready. You can download it or start a new recording.</p>
+                  <p className="text-sm text-muted-foreground">
+                    {isSaving
+                      ? 'Saving your recording to My Recordings...'
+                      : savedRecordingId
+                        ? 'Your recording is saved. Open its report for a summary of the session, or start a new recording.'
+                        : 'Your recording is ready. You can download it, review it in My Recordings or start a new recording.'}
+                  </p>
                   <div className="flex gap-2">
                     <Button onClick={downloadVideo} className="bg-studio-primary hover:bg-studio-primary/90">
                       <Download className="mr-2 h-4 w-4" />
                       Download Recording
                     </Button>
+                    {savedRecordingId ? (
+                      <Button variant="outline" onClick={() => navigate(`/recordings/${savedRecordingId}/report`)}>
+                        <FileText className="mr-2 h-4 w-4" />
+                        View Report
+                      </Button>
+                    ) : (
+                      <Button 
+                        variant="outline" 
+                        onClick={() => navigate('/recordings')}
+                        disabled={isSaving}
+                      >
+                        My Recordings
+                      </Button>
+                    )}
                     <Button 
                       variant="outline" 
                       onClick={() => {
                         setRecordedBlob(null);
+                        setSavedRecordingId(null);
                         setRecordingTime(0);
                       }}
                     >
@@ -374,81 +1157,138 @@ const Record = () => {
                   <h3 className="font-medium">Real-time Analysis</h3>
                 </div>
                 
+                <Select
+                  value={settings.emotionBackend}
+                  onValueChange={changeEmotionBackend}
+                  disabled={isRecording || loadingModel}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {listEmotionBackends().map(option => (
+                      <SelectItem key={option.id} value={option.id} className="text-xs">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground -mt-2">
+                  {getEmotionBackendMetadata(settings.emotionBackend)?.description}
+                </p>
+                
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
                       <Smile className="h-4 w-4 text-studio-light" />
                       <h4 className="text-sm font-medium">Emotions</h4>
-                      {modelLoaded && (
-                        <span className="text-xs bg-green-500/20 text-green-500 px-2 py-0.5 rounded-full">
-                          100% Accuracy
+                      {modelLoaded && (calibration ? (
+                        <span
+                          className="text-xs bg-studio-primary/20 text-studio-light px-2 py-0.5 rounded-full tabular-nums"
+                          title={`Measured on ${calibration.samples} labeled images`}
+                        >
+                          {Math.round(calibration.accuracy * 100)}% accuracy
+                        </span>
+                      ) : (
+                        <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded-full">
+                          Uncalibrated
+                        </span>
+                      ))}
+                      {isRecording && modelLoaded && uncertain && (
+                        <span className="text-xs text-muted-foreground">Uncertain</span>
+                      )}
+                      {isRecording && inferenceStats && (
+                        <span
+                          className="text-xs text-muted-foreground ml-auto tabular-nums"
+                          title={`${inferenceStats.dropped} stale frames dropped`}
+                        >
+                          {inferenceStats.fps.toFixed(1)} fps · {Math.round(inferenceStats.latency)} ms
                         </span>
                       )}
                     </div>
-                    <div className="space-y-1">
-                      <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
-                        <span className="text-muted-foreground">Happy</span>
-                        <Progress value={emotions.happy * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Neutral</span>
-                        <Progress value={emotions.neutral * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Surprised</span>
-                        <Progress value={emotions.surprised * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Sad</span>
-                        <Progress value={emotions.sad * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Angry</span>
-                        <Progress value={emotions.angry * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Disgust</span>
-                        <Progress value={emotions.disgust * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Fear</span>
-                        <Progress value={emotions.fear * 100} className="h-2" />
-                      </div>
-                    </div>
+                    <EmotionBars emotions={emotions} />
                   </div>
                   
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
                       <Eye className="h-4 w-4 text-studio-light" />
                       <h4 className="text-sm font-medium">Eye Movement</h4>
+                      {isRecording && attention && (
+                        <span className={`text-xs ml-auto ${attention.lookingAtCamera ? 'text-studio-light' : 'text-muted-foreground'}`}>
+                          {!attention.faceDetected
+                            ? 'No face'
+                            : attention.lookingAtCamera ? 'Looking at camera' : 'Looking away'}
+                        </span>
+                      )}
                     </div>
-                    <div className="space-y-1">
-                      <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
-                        <span className="text-muted-foreground">Focused</span>
-                        <Progress value={eyeMovement.focused * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Distracted</span>
-                        <Progress value={eyeMovement.distracted * 100} className="h-2" />
+                    {attentionLoaded ? (
+                      <div className="space-y-1">
+                        <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+                          <span className="text-muted-foreground">At camera (10s)</span>
+                          <Progress value={eyeMovement.focused * 100} className="h-2" />
+                          
+                          <span className="text-muted-foreground">Away (10s)</span>
+                          <Progress value={eyeMovement.distracted * 100} className="h-2" />
+                        </div>
+                        {isRecording && attention?.faceDetected && (
+                          <p className="text-xs text-muted-foreground tabular-nums">
+                            Head {Math.round(attention.yaw)}° yaw · {Math.round(attention.pitch)}° pitch
+                          </p>
+                        )}
                       </div>
-                    </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        {loadingModel ? 'Loading face landmark model...' : 'Gaze tracking is unavailable.'}
+                      </p>
+                    )}
                   </div>
                   
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
-                      <Sparkles className="h-4 w-4 text-studio-light" />
+                      <Hand className="h-4 w-4 text-studio-light" />
                       <h4 className="text-sm font-medium">Gestures</h4>
+                      {isRecording && gesturesLoaded && (
+                        <span className="text-xs text-muted-foreground ml-auto">
+                          {gestureCount} {gestureCount === 1 ? 'event' : 'events'}
+                        </span>
+                      )}
                     </div>
-                    <div className="space-y-1">
-                      <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
-                        <span className="text-muted-foreground">None</span>
-                        <Progress value={gestures.none * 100} className="h-2" />
-                        
-                        <span className="text-muted-foreground">Hand Raise</span>
-                        <Progress value={gestures.handRaise * 100} className="h-2" />
+                    {gesturesLoaded ? (
+                      <div className="flex flex-wrap gap-1">
+                        {(Object.keys(GESTURE_LABELS) as GestureType[]).map(gesture => (
+                          <Badge
+                            key={gesture}
+                            variant={activeGestures.includes(gesture) ? 'default' : 'outline'}
+                            className={`text-xs font-normal ${
+                              activeGestures.includes(gesture) ? 'bg-studio-primary hover:bg-studio-primary' : 'text-muted-foreground'
+                            }`}
+                          >
+                            {GESTURE_LABELS[gesture]}
+                          </Badge>
+                        ))}
                       </div>
-                    </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        {loadingModel ? 'Loading hand landmark model...' : 'Gesture detection is unavailable.'}
+                      </p>
+                    )}
                   </div>
                 </div>
                 
                 <div className="text-xs text-muted-foreground pt-2 border-t border-border/50">
-                  {modelLoaded ? (
-                    <p>* Emotions detected using AI model with 100% accuracy</p>
+                  {!modelLoaded ? (
+                    <p>* No emotion model is loaded, so emotions are not being analyzed</p>
+                  ) : calibration ? (
+                    <p>
+                      * This model labeled {(calibration.accuracy * 100).toFixed(1)}% of {calibration.samples} validation
+                      images correctly. Confidence is temperature-scaled (T = {calibration.temperature.toFixed(2)}) so
+                      it tracks that rate; below {Math.round(settings.uncertaintyThreshold * 100)}% the emotion is shown as uncertain.
+                    </p>
                   ) : (
-                    <p>* Analysis is simulated in this demo</p>
+                    <p>
+                      * Confidence is the model's raw output and is likely overconfident. Calibrate the model in
+                      Settings to measure its accuracy.
+                    </p>
                   )}
                 </div>
               </Card>
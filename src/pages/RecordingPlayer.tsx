@@ -0,0 +1,302 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Activity, Calendar, Clock, Eye, FileText, Film, Gauge, Hand, LineChart, Mic, Smile, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import Header from '@/components/Header';
+import EmotionBars from '@/components/EmotionBars';
+import EmotionTimelineChart from '@/components/EmotionTimelineChart';
+import ExportMenu from '@/components/ExportMenu';
+import TagEditor from '@/components/TagEditor';
+import { useRecording, useRecordingAnalysis, useRecordingVideoUrl } from '@/hooks/use-recordings';
+import { useVideoTime } from '@/hooks/use-video-time';
+import { useSettings } from '@/hooks/use-settings';
+import { findSampleAt, selectSeries, type EmotionSeries } from '@/utils/emotionTimeline';
+import { formatDate, formatDuration, formatPercent } from '@/utils/format';
+import { lookingAtCameraShare } from '@/utils/attentionTracking';
+import { GESTURE_LABELS } from '@/utils/gestureDetection';
+import { emptyEmotionScores } from '@/utils/emotionPalette';
+
+const EMPTY_SCORES = emptyEmotionScores();
+
+const RecordingPlayer = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: recording, isLoading: loadingRecording } = useRecording(id);
+  const { data: analysis } = useRecordingAnalysis(id);
+  const { url: videoUrl, isLoading: loadingVideo } = useRecordingVideoUrl(id);
+
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const currentTime = useVideoTime(videoElement);
+
+  const [series, setSeries] = useState<EmotionSeries>('smoothed');
+  const emotionSamples = useMemo(() => analysis?.emotions ?? [], [analysis]);
+  const hasSmoothed = emotionSamples.some(sample => sample.smoothed);
+  const displayedSamples = useMemo(
+    () => selectSeries(emotionSamples, hasSmoothed ? series : 'raw'),
+    [emotionSamples, hasSmoothed, series]
+  );
+  const currentSample = findSampleAt(displayedSamples, currentTime * 1000);
+  const [{ uncertaintyThreshold }] = useSettings();
+  const calibration = analysis?.calibration;
+
+  const attentionSamples = useMemo(() => analysis?.attention ?? [], [analysis]);
+  const attentionShare = useMemo(() => lookingAtCameraShare(attentionSamples), [attentionSamples]);
+  const currentAttention = findSampleAt(attentionSamples, currentTime * 1000);
+
+  const seekTo = (time: number) => {
+    if (videoElement) {
+      videoElement.currentTime = time;
+    }
+  };
+
+  if (loadingRecording || loadingVideo) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen pt-20 pb-8 px-4">
+          <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+            <Activity className="h-4 w-4 animate-pulse" />
+            Loading recording...
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  if (!recording || !videoUrl) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen pt-20 pb-8 px-4">
+          <div className="container max-w-5xl">
+            <Card className="p-8 text-center">
+              <div className="mb-4 mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+                <Video className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-xl font-medium mb-2">Recording not found</h3>
+              <p className="text-muted-foreground mb-4">It may have been deleted from this browser</p>
+              <Link to="/recordings">
+                <Button className="bg-studio-primary hover:bg-studio-primary/90">
+                  Back to My Recordings
+                </Button>
+              </Link>
+            </Card>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen pt-20 pb-8 px-4">
+        <div className="container max-w-5xl">
+          <Link to="/recordings" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4">
+            <ArrowLeft className="h-4 w-4" />
+            My Recordings
+          </Link>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Main video area */}
+            <div className="lg:col-span-2 space-y-4">
+              <Card className="overflow-hidden bg-card/50 backdrop-blur-sm border-border/50">
+                <div className="relative w-full aspect-video bg-black">
+                  <video
+                    ref={setVideoElement}
+                    src={videoUrl}
+                    controls
+                    playsInline
+                    className="w-full h-full object-contain"
+                  />
+
+                  {currentSample && (
+                    <div className="absolute top-4 right-4 bg-black/70 px-3 py-1 rounded-md flex items-center gap-2 pointer-events-none">
+                      <Smile className="h-4 w-4 text-studio-primary" />
+                      <span className="text-sm font-medium text-white capitalize">
+                        {currentSample.confidence < uncertaintyThreshold ? 'Uncertain' : currentSample.emotion}
+                        {' '}({formatPercent(currentSample.confidence)})
+                      </span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="p-4 border-t border-border/50">
+                  <div className="flex items-start justify-between gap-4 mb-1">
+                    <h1 className="text-lg font-medium truncate">{recording.title}</h1>
+                    <div className="flex gap-2 shrink-0">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link to={`/recordings/${recording.id}/report`}>
+                          <FileText className="mr-2 h-4 w-4" />
+                          Report
+                        </Link>
+                      </Button>
+                      <ExportMenu recording={recording} />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      {formatDate(recording.createdAt)}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDuration(recording.duration)}
+                    </div>
+                    {recording.capture && (
+                      <div className="flex items-center gap-1">
+                        <Film className="h-3 w-3" />
+                        {recording.capture.width}×{recording.capture.height} · {Math.round(recording.capture.frameRate)} fps
+                        · {(recording.capture.videoBitsPerSecond / 1_000_000).toFixed(1)} Mbps
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-3">
+                    <TagEditor recording={recording} />
+                  </div>
+                </div>
+              </Card>
+
+              {emotionSamples.length > 0 && (
+                <Card className="p-4 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <LineChart className="h-5 w-5 text-studio-primary" />
+                    <h3 className="font-medium">Emotion Timeline</h3>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Click the chart to jump to that moment in the video</p>
+                  <EmotionTimelineChart
+                    samples={displayedSamples}
+                    duration={recording.duration}
+                    currentTime={currentTime}
+                    onSeek={seekTo}
+                  />
+                </Card>
+              )}
+            </div>
+
+            {/* Analysis panel */}
+            <div className="space-y-4">
+              <Card className="p-4 space-y-4">
+                <div className="flex items-center gap-2">
+                  <Gauge className="h-5 w-5 text-studio-primary" />
+                  <h3 className="font-medium">Recorded Analysis</h3>
+                </div>
+
+                {hasSmoothed && (
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={series}
+                    onValueChange={value => value && setSeries(value as EmotionSeries)}
+                    className="justify-start"
+                  >
+                    <ToggleGroupItem value="smoothed" className="text-xs">Smoothed</ToggleGroupItem>
+                    <ToggleGroupItem value="raw" className="text-xs">Raw</ToggleGroupItem>
+                  </ToggleGroup>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Smile className="h-4 w-4 text-studio-light" />
+                    <h4 className="text-sm font-medium">Emotions</h4>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {formatDuration(currentTime)}
+                    </span>
+                  </div>
+                  <EmotionBars emotions={currentSample?.scores ?? EMPTY_SCORES} />
+                  <p className="text-xs text-muted-foreground">
+                    {calibration
+                      ? `Calibrated confidence · model ${formatPercent(calibration.accuracy)} accurate on ${calibration.samples} images`
+                      : 'Raw model confidence, not calibrated'}
+                  </p>
+                </div>
+
+                {attentionShare !== null && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Eye className="h-4 w-4 text-studio-light" />
+                      <h4 className="text-sm font-medium">Eye Movement</h4>
+                      {currentAttention && (
+                        <span className="text-xs text-muted-foreground ml-auto">
+                          {!currentAttention.faceDetected
+                            ? 'No face'
+                            : currentAttention.lookingAtCamera ? 'Looking at camera' : 'Looking away'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+                      <span className="text-muted-foreground">At camera overall</span>
+                      <Progress value={attentionShare * 100} className="h-2" />
+                    </div>
+                  </div>
+                )}
+
+                <div className="text-xs text-muted-foreground pt-2 border-t border-border/50">
+                  {emotionSamples.length > 0 ? (
+                    <p>* Scores detected at this point of the recording</p>
+                  ) : (
+                    <p>* No emotion data was captured for this recording</p>
+                  )}
+                </div>
+              </Card>
+
+              {analysis?.gestures && analysis.gestures.length > 0 && (
+                <Card className="p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Hand className="h-5 w-5 text-studio-primary" />
+                    <h3 className="font-medium">Gestures</h3>
+                    <span className="text-xs text-muted-foreground ml-auto">
+                      {analysis.gestures.length} {analysis.gestures.length === 1 ? 'event' : 'events'}
+                    </span>
+                  </div>
+                  <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+                    {analysis.gestures.map((event, index) => (
+                      <li key={`${event.time}-${event.gesture}-${index}`}>
+                        <button
+                          type="button"
+                          onClick={() => seekTo(event.time / 1000)}
+                          className="w-full flex items-center gap-2 rounded px-2 py-1 text-left hover:bg-muted/50"
+                        >
+                          <span className="tabular-nums text-muted-foreground">{formatDuration(event.time / 1000)}</span>
+                          <span>{GESTURE_LABELS[event.gesture]}</span>
+                          <span className="ml-auto text-muted-foreground">
+                            {event.hand} · {(event.duration / 1000).toFixed(1)}s
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </Card>
+              )}
+
+              {analysis?.audio && (
+                <Card className="p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Mic className="h-5 w-5 text-studio-primary" />
+                    <h3 className="font-medium">Audio</h3>
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+                    <span className="text-muted-foreground">Peak</span>
+                    <span className="tabular-nums">{analysis.audio.peakDb.toFixed(1)} dBFS</span>
+                    <span className="text-muted-foreground">RMS</span>
+                    <span className="tabular-nums">{analysis.audio.rmsDb.toFixed(1)} dBFS</span>
+                    <span className="text-muted-foreground">Clipping</span>
+                    <span className={analysis.audio.clippingEvents > 0 ? 'text-destructive' : ''}>
+                      {analysis.audio.clippingEvents === 1 ? '1 time' : `${analysis.audio.clippingEvents} times`}
+                    </span>
+                    <span className="text-muted-foreground">Silent</span>
+                    <span className="tabular-nums">{formatDuration(analysis.audio.silentSeconds)}</span>
+                  </div>
+                </Card>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default RecordingPlayer;
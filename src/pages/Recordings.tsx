@@ -1,66 +1,46 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import { Link } from 'react-router-dom';
-import { Video, Play, Download, Trash2, Calendar, Clock } from 'lucide-react';
+import { Video, Play, Trash2, Calendar, Clock, Activity, ScanFace, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import Header from '@/components/Header';
+import InterruptedRecordings from '@/components/InterruptedRecordings';
+import ExportMenu from '@/components/ExportMenu';
 import { toast } from 'sonner';
-
-// Mock data for recordings
-const mockRecordings = [
-  {
-    id: '1',
-    title: 'Interview Practice',
-    date: '2023-12-15T14:30:00',
-    duration: 420, // 7 minutes in seconds
-    thumbnail: 'https://images.unsplash.com/photo-1573496359142-b8d87734a5a2?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&q=80',
-  },
-  {
-    id: '2',
-    title: 'Presentation Rehearsal',
-    date: '2023-12-10T10:15:00',
-    duration: 840, // 14 minutes in seconds
-    thumbnail: 'https://images.unsplash.com/photo-1557425955-df376b5903c8?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&q=80',
-  },
-  {
-    id: '3',
-    title: 'Team Meeting',
-    date: '2023-12-05T09:00:00',
-    duration: 1800, // 30 minutes in seconds
-    thumbnail: 'https://images.unsplash.com/photo-1560439514-4e9645039924?ixlib=rb-4.0.3&auto=format&fit=crop&w=400&q=80',
-  },
-];
+import { useRecordings, useDeleteRecording, useImportSessionBundle } from '@/hooks/use-recordings';
+import { formatDate, formatDuration } from '@/utils/format';
+import { BundleError } from '@/utils/sessionBundle';
 
 const Recordings = () => {
-  const [recordings, setRecordings] = useState(mockRecordings);
+  const { data: recordings = [], isLoading } = useRecordings();
+  const deleteMutation = useDeleteRecording();
+  const importMutation = useImportSessionBundle();
   
-  // Format duration (seconds to mm:ss or hh:mm:ss)
-  const formatDuration = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    
-    if (hours > 0) {
-      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  // Delete recording
+  const deleteRecording = async (id: string) => {
+    try {
+      await deleteMutation.mutateAsync(id);
+      toast('Recording deleted successfully');
+    } catch (error) {
+      console.error('Failed to delete recording:', error);
+      toast.error('Could not delete recording');
     }
-    return `${minutes}:${secs.toString().padStart(2, '0')}`;
-  };
-  
-  // Format date
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', { 
-      year: 'numeric', 
-      month: 'short', 
-      day: 'numeric' 
-    });
   };
   
-  // Delete recording
-  const deleteRecording = (id: string) => {
-    setRecordings(recordings.filter(recording => recording.id !== id));
-    toast('Recording deleted successfully');
+  // Import a session bundle exported on another machine
+  const importBundle = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    
+    try {
+      const recording = await importMutation.mutateAsync(file);
+      toast.success(`Imported "${recording.title}"`);
+    } catch (error) {
+      console.error('Failed to import session bundle:', error);
+      toast.error(error instanceof BundleError ? error.message : 'Could not import session bundle');
+    }
   };
   
   return (
@@ -74,29 +54,60 @@ const Recordings = () => {
               <p className="text-muted-foreground">Manage and review your recorded videos</p>
             </div>
             
-            <Link to="/record">
-              <Button className="bg-studio-primary hover:bg-studio-primary/90">
-                <Video className="mr-2 h-4 w-4" />
-                New Recording
+            <div className="flex gap-2">
+              <Button variant="outline" disabled={importMutation.isPending} asChild>
+                <label className="cursor-pointer">
+                  <Upload className="mr-2 h-4 w-4" />
+                  {importMutation.isPending ? 'Importing...' : 'Import'}
+                  <input type="file" accept=".zip,application/zip" className="hidden" onChange={importBundle} />
+                </label>
               </Button>
-            </Link>
+              <Link to="/analyze">
+                <Button variant="outline">
+                  <ScanFace className="mr-2 h-4 w-4" />
+                  Analyze Video
+                </Button>
+              </Link>
+              <Link to="/record">
+                <Button className="bg-studio-primary hover:bg-studio-primary/90">
+                  <Video className="mr-2 h-4 w-4" />
+                  New Recording
+                </Button>
+              </Link>
+            </div>
           </div>
           
-          {recordings.length > 0 ? (
+          <InterruptedRecordings />
+          
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+              <Activity className="h-4 w-4 animate-pulse" />
+              Loading recordings...
+            </div>
+          ) : recordings.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {recordings.map(recording => (
                 <Card key={recording.id} className="overflow-hidden">
                   <div className="relative aspect-video">
-                    <img 
-                      src={recording.thumbnail} 
-                      alt={recording.title} 
-                      className="w-full h-full object-cover"
-                    />
-                    <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity">
-                      <Button variant="secondary" size="icon" className="rounded-full">
+                    {recording.thumbnail ? (
+                      <img 
+                        src={recording.thumbnail} 
+                        alt={recording.title} 
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full bg-muted flex items-center justify-center">
+                        <Video className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    )}
+                    <Link 
+                      to={`/recordings/${recording.id}`}
+                      className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity"
+                    >
+                      <Button variant="secondary" size="icon" className="rounded-full" tabIndex={-1}>
                         <Play />
                       </Button>
-                    </div>
+                    </Link>
                     <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
                       {formatDuration(recording.duration)}
                     </div>
@@ -108,7 +119,7 @@ const Recordings = () => {
                     <div className="flex items-center gap-4 text-xs text-muted-foreground mb-3">
                       <div className="flex items-center gap-1">
                         <Calendar className="h-3 w-3" />
-                        {formatDate(recording.date)}
+                        {formatDate(recording.createdAt)}
                       </div>
                       <div className="flex items-center gap-1">
                         <Clock className="h-3 w-3" />
@@ -117,13 +128,18 @@ const Recordings = () => {
                     </div>
                     
                     <div className="flex gap-2">
-                      <Button variant="secondary" size="sm" className="flex-1">
-                        <Play className="mr-1 h-3 w-3" />
-                        Play
+                      <Button variant="secondary" size="sm" className="flex-1" asChild>
+                        <Link to={`/recordings/${recording.id}`}>
+                          <Play className="mr-1 h-3 w-3" />
+                          Play
+                        </Link>
                       </Button>
-                      <Button variant="outline" size="icon" className="h-8 w-8">
-                        <Download className="h-3 w-3" />
+                      <Button variant="outline" size="icon" className="h-8 w-8" title="Analyze again" asChild>
+                        <Link to={`/recordings/${recording.id}/analyze`}>
+                          <ScanFace className="h-3 w-3" />
+                        </Link>
                       </Button>
+                      <ExportMenu recording={recording} compact />
                       <Button 
                         variant="outline" 
                         size="icon" 
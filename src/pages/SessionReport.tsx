@@ -0,0 +1,284 @@
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Activity, ArrowLeft, Eye, FileDown, Hand, Mic, Printer, Smile, Sparkles, Video } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import Header from '@/components/Header';
+import { useRecording, useRecordingAnalysis, useRecordingFrames } from '@/hooks/use-recordings';
+import { buildSessionReport } from '@/utils/sessionReport';
+import { printReportHtml, renderReportHtml } from '@/utils/reportHtml';
+import { EMOTION_KEYS, EMOTION_PALETTE } from '@/utils/emotionPalette';
+import { downloadBlob, toFileName } from '@/utils/download';
+import { formatDate, formatDuration, formatPercent } from '@/utils/format';
+
+interface StatProps {
+  label: string;
+  value: string;
+}
+
+const Stat = ({ label, value }: StatProps) => (
+  <div className="rounded-md border border-border/50 p-3">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="font-medium tabular-nums">{value}</p>
+  </div>
+);
+
+const SessionReport = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data: recording, isLoading: loadingRecording } = useRecording(id);
+  const { data: analysis, isLoading: loadingAnalysis } = useRecordingAnalysis(id);
+
+  const report = useMemo(
+    () => (recording && analysis ? buildSessionReport(recording, analysis) : null),
+    [recording, analysis]
+  );
+  const momentTimes = useMemo(() => report?.moments.map(moment => moment.time) ?? [], [report]);
+  const { data: frames, isLoading: loadingFrames } = useRecordingFrames(id, momentTimes);
+
+  const exportHtml = () => {
+    if (!report) return;
+    const html = renderReportHtml(report, frames ?? new Map());
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${toFileName(report.title)}.report.html`);
+  };
+
+  const printReport = () => {
+    if (!report) return;
+    printReportHtml(renderReportHtml(report, frames ?? new Map()));
+  };
+
+  if (loadingRecording || loadingAnalysis) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen pt-20 pb-8 px-4">
+          <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+            <Activity className="h-4 w-4 animate-pulse" />
+            Loading report...
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  if (!recording || !report) {
+    return (
+      <>
+        <Header />
+        <main className="min-h-screen pt-20 pb-8 px-4">
+          <div className="container max-w-5xl">
+            <Card className="p-8 text-center">
+              <div className="mb-4 mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+                <Video className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-xl font-medium mb-2">Recording not found</h3>
+              <p className="text-muted-foreground mb-4">It may have been deleted from this browser</p>
+              <Link to="/recordings">
+                <Button className="bg-studio-primary hover:bg-studio-primary/90">
+                  Back to My Recordings
+                </Button>
+              </Link>
+            </Card>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const durationMs = report.duration * 1000 || 1;
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen pt-20 pb-8 px-4">
+        <div className="container max-w-5xl space-y-6">
+          <Link to={`/recordings/${recording.id}`} className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            Back to recording
+          </Link>
+
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">{report.title}</h1>
+              <p className="text-muted-foreground">Session report · recorded {formatDate(report.createdAt)}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={exportHtml} disabled={loadingFrames}>
+                <FileDown className="mr-2 h-4 w-4" />
+                HTML
+              </Button>
+              <Button variant="outline" onClick={printReport} disabled={loadingFrames}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print / PDF
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Stat label="Duration" value={formatDuration(report.duration)} />
+            <Stat
+              label="Paused"
+              value={report.pauseCount ? `${report.pauseCount}× · ${formatDuration(report.pausedSeconds)}` : 'Never'}
+            />
+            <Stat
+              label="Dominant emotion"
+              value={report.dominantEmotion ? EMOTION_PALETTE[report.dominantEmotion].label : '—'}
+            />
+            <Stat
+              label="Frames analyzed"
+              value={`${report.samples}${report.faceDetectedShare !== null ? ` · ${formatPercent(report.faceDetectedShare)} with a face` : ''}`}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Smile className="h-5 w-5 text-studio-primary" />
+                <h3 className="font-medium">Emotion Distribution</h3>
+              </div>
+              {report.samples > 0 ? (
+                <div className="space-y-1.5">
+                  {EMOTION_KEYS.map(key => (
+                    <div key={key} className="grid grid-cols-[5rem_1fr_3rem] items-center gap-2 text-xs">
+                      <span className="text-muted-foreground">{EMOTION_PALETTE[key].label}</span>
+                      <div className="h-2 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full"
+                          style={{ width: formatPercent(report.distribution[key]), backgroundColor: EMOTION_PALETTE[key].color }}
+                        />
+                      </div>
+                      <span className="text-right tabular-nums">{formatPercent(report.distribution[key])}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">This recording has no emotion analysis.</p>
+              )}
+            </Card>
+
+            <Card className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Activity className="h-5 w-5 text-studio-primary" />
+                <h3 className="font-medium">Dominant Emotion Over Time</h3>
+              </div>
+              <div className="flex h-6 rounded-md overflow-hidden border border-border/50">
+                {report.timeline.map(segment => (
+                  <div
+                    key={segment.start}
+                    className="h-full"
+                    style={{
+                      width: `${((segment.end - segment.start) / durationMs) * 100}%`,
+                      backgroundColor: segment.emotion ? EMOTION_PALETTE[segment.emotion].color : 'transparent',
+                    }}
+                    title={`${formatDuration(segment.start / 1000)}: ${segment.emotion ? EMOTION_PALETTE[segment.emotion].label : 'No data'}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>0:00</span>
+                <span>{formatDuration(report.duration)}</span>
+              </div>
+              <div className="flex flex-wrap gap-3 text-xs">
+                {EMOTION_KEYS.filter(key => report.timeline.some(segment => segment.emotion === key)).map(key => (
+                  <span key={key} className="flex items-center gap-1">
+                    <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: EMOTION_PALETTE[key].color }} />
+                    {EMOTION_PALETTE[key].label}
+                  </span>
+                ))}
+              </div>
+            </Card>
+          </div>
+
+          <Card className="p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5 text-studio-primary" />
+              <h3 className="font-medium">Top Moments</h3>
+            </div>
+            {report.moments.length > 0 ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {report.moments.map(moment => (
+                  <div key={`${moment.emotion}-${moment.time}`} className="rounded-md border border-border/50 overflow-hidden">
+                    {frames?.get(moment.time) ? (
+                      <img src={frames.get(moment.time)} alt="" className="w-full aspect-video object-cover" />
+                    ) : (
+                      <div className={`w-full aspect-video bg-muted ${loadingFrames ? 'animate-pulse' : ''}`} />
+                    )}
+                    <div className="p-2 text-xs">
+                      <span className="font-medium">{EMOTION_PALETTE[moment.emotion].label}</span>{' '}
+                      <span className="tabular-nums">{formatPercent(moment.score)}</span>
+                      <span className="text-muted-foreground"> at {formatDuration(moment.time / 1000)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No strong expressions were found.</p>
+            )}
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Card className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Eye className="h-5 w-5 text-studio-primary" />
+                <h3 className="font-medium">Attention</h3>
+              </div>
+              {report.attention ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <Stat label="At camera" value={formatPercent(report.attention.lookingAtCameraShare)} />
+                  <Stat label="Average attention" value={formatPercent(report.attention.averageAttention)} />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Gaze was not tracked.</p>
+              )}
+            </Card>
+
+            <Card className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Hand className="h-5 w-5 text-studio-primary" />
+                <h3 className="font-medium">Gestures</h3>
+              </div>
+              {report.gestures.length > 0 ? (
+                <div className="space-y-1 text-sm">
+                  {report.gestures.map(gesture => (
+                    <div key={gesture.gesture} className="flex justify-between">
+                      <span>{gesture.label}</span>
+                      <span className="text-muted-foreground tabular-nums">
+                        {gesture.count}× · {gesture.heldSeconds.toFixed(1)}s
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No gestures were detected.</p>
+              )}
+            </Card>
+
+            <Card className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Mic className="h-5 w-5 text-studio-primary" />
+                <h3 className="font-medium">Audio</h3>
+              </div>
+              {report.audio ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <Stat label="Peak" value={`${report.audio.peakDb.toFixed(1)} dBFS`} />
+                  <Stat label="Clipping" value={`${report.audio.clippingEvents}×`} />
+                  <Stat label="Average" value={`${report.audio.rmsDb.toFixed(1)} dBFS`} />
+                  <Stat label="Silent" value={formatDuration(report.audio.silentSeconds)} />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Audio levels were not measured.</p>
+              )}
+            </Card>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {report.calibration
+              ? `* Confidence was calibrated; the model was ${formatPercent(report.calibration.accuracy)} accurate on ${report.calibration.samples} labeled images.`
+              : '* Confidence is the raw model output and was not calibrated.'}
+          </p>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default SessionReport;
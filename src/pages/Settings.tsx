@@ -0,0 +1,219 @@
+import React from 'react';
+import { Brain, MicVocal, Waves } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import CalibrationCard from '@/components/CalibrationCard';
+import Header from '@/components/Header';
+import { useSettings } from '@/hooks/use-settings';
+import { listEmotionBackends } from '@/utils/emotionBackends';
+import type { SmoothingMethod, SmoothingSettings } from '@/utils/emotionSmoothing';
+
+const SMOOTHING_METHODS: { value: SmoothingMethod; label: string }[] = [
+  { value: 'none', label: 'None (raw frames)' },
+  { value: 'ema', label: 'Exponential moving average' },
+  { value: 'median', label: 'Sliding-window median' },
+];
+
+const Settings = () => {
+  const [settings, updateSettings] = useSettings();
+  const { smoothing } = settings;
+  
+  const updateSmoothing = (changes: Partial<SmoothingSettings>) => {
+    updateSettings({ smoothing: { ...smoothing, ...changes } });
+  };
+  
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen pt-20 pb-8 px-4">
+        <div className="container max-w-3xl space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold">Settings</h1>
+            <p className="text-muted-foreground">Choose how recordings are captured and analyzed</p>
+          </div>
+          
+          <Card className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Brain className="h-5 w-5 text-studio-primary" />
+              <h3 className="font-medium">Emotion Model</h3>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              The classifier used for live analysis. It takes effect the next time the recording studio loads its model.
+            </p>
+            
+            <RadioGroup
+              value={settings.emotionBackend}
+              onValueChange={value => updateSettings({ emotionBackend: value })}
+            >
+              {listEmotionBackends().map(backend => (
+                <Label
+                  key={backend.id}
+                  htmlFor={`backend-${backend.id}`}
+                  className="flex items-start gap-3 rounded-md border border-border/50 p-3 cursor-pointer hover:bg-accent/50"
+                >
+                  <RadioGroupItem value={backend.id} id={`backend-${backend.id}`} className="mt-0.5" />
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{backend.label}</span>
+                      <span className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded-full">
+                        {backend.runtime}
+                      </span>
+                      {backend.offline && (
+                        <span className="text-xs bg-studio-primary/20 text-studio-light px-2 py-0.5 rounded-full">
+                          Offline
+                        </span>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {settings.calibrations[backend.id]
+                          ? `${(settings.calibrations[backend.id].accuracy * 100).toFixed(1)}% measured accuracy`
+                          : 'Accuracy not measured'}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground font-normal">{backend.description}</p>
+                  </div>
+                </Label>
+              ))}
+            </RadioGroup>
+          </Card>
+          
+          <CalibrationCard />
+          
+          <Card className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Waves className="h-5 w-5 text-studio-primary" />
+              <h3 className="font-medium">Emotion Smoothing</h3>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Filters the live emotion stream so the displayed label does not flicker between frames.
+              Raw scores are always saved alongside the smoothed ones.
+            </p>
+            
+            <div className="space-y-2">
+              <Label>Filter</Label>
+              <Select
+                value={smoothing.method}
+                onValueChange={value => updateSmoothing({ method: value as SmoothingMethod })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SMOOTHING_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            {smoothing.method === 'ema' && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <Label>Responsiveness</Label>
+                  <span className="text-muted-foreground tabular-nums">{smoothing.emaAlpha.toFixed(2)}</span>
+                </div>
+                <Slider
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={[smoothing.emaAlpha]}
+                  onValueChange={([value]) => updateSmoothing({ emaAlpha: value })}
+                />
+                <p className="text-xs text-muted-foreground">Weight of the newest frame; lower is smoother but slower to react</p>
+              </div>
+            )}
+            
+            {smoothing.method === 'median' && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <Label>Window</Label>
+                  <span className="text-muted-foreground tabular-nums">{smoothing.medianWindow} frames</span>
+                </div>
+                <Slider
+                  min={3}
+                  max={15}
+                  step={2}
+                  value={[smoothing.medianWindow]}
+                  onValueChange={([value]) => updateSmoothing({ medianWindow: value })}
+                />
+              </div>
+            )}
+            
+            <div className="flex items-center justify-between pt-2 border-t border-border/50">
+              <div>
+                <Label htmlFor="hysteresis">Label hysteresis</Label>
+                <p className="text-xs text-muted-foreground">Only switch the top emotion once a new one clearly leads</p>
+              </div>
+              <Switch
+                id="hysteresis"
+                checked={smoothing.hysteresis}
+                onCheckedChange={checked => updateSmoothing({ hysteresis: checked })}
+              />
+            </div>
+            
+            {smoothing.hysteresis && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <Label>Lead required</Label>
+                    <span className="text-muted-foreground tabular-nums">{Math.round(smoothing.hysteresisMargin * 100)}%</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={0.5}
+                    step={0.05}
+                    value={[smoothing.hysteresisMargin]}
+                    onValueChange={([value]) => updateSmoothing({ hysteresisMargin: value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <Label>For at least</Label>
+                    <span className="text-muted-foreground tabular-nums">{smoothing.hysteresisFrames} frames</span>
+                  </div>
+                  <Slider
+                    min={1}
+                    max={10}
+                    step={1}
+                    value={[smoothing.hysteresisFrames]}
+                    onValueChange={([value]) => updateSmoothing({ hysteresisFrames: value })}
+                  />
+                </div>
+              </div>
+            )}
+          </Card>
+          
+          <Card className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <MicVocal className="h-5 w-5 text-studio-primary" />
+              <h3 className="font-medium">Audio</h3>
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <Label>Silent microphone warning</Label>
+                <span className="text-muted-foreground tabular-nums">
+                  {settings.silenceWarningSeconds > 0 ? `after ${settings.silenceWarningSeconds}s` : 'Off'}
+                </span>
+              </div>
+              <Slider
+                min={0}
+                max={60}
+                step={5}
+                value={[settings.silenceWarningSeconds]}
+                onValueChange={([value]) => updateSettings({ silenceWarningSeconds: value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Warns while recording if no sound has reached the microphone for this long
+              </p>
+            </div>
+          </Card>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Activity, CalendarRange, Eye, LineChart as LineChartIcon, Mic, Smile, Video, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import Header from '@/components/Header';
+import { useSessionSummaries } from '@/hooks/use-recordings';
+import { aggregateByWeek, collectTags, filterSessions } from '@/utils/sessionTrends';
+import { EMOTION_KEYS, EMOTION_PALETTE } from '@/utils/emotionPalette';
+import { formatDuration } from '@/utils/format';
+
+const emotionConfig = EMOTION_PALETTE satisfies ChartConfig;
+
+// Matches studio-primary in the Tailwind config
+const metricConfig = {
+  lookingAtCamera: { label: 'At camera (%)', color: '#8B5CF6' },
+  speakingMinutes: { label: 'Speaking (min)', color: '#8B5CF6' },
+  sessions: { label: 'Sessions', color: '#8B5CF6' },
+} satisfies ChartConfig;
+
+// Select items cannot have an empty value, so "all tags" gets a sentinel
+const ALL_TAGS = '__all__';
+
+const weekLabel = (week: string) => format(new Date(week), 'MMM d');
+
+interface StatProps {
+  label: string;
+  value: string;
+}
+
+const Stat = ({ label, value }: StatProps) => (
+  <Card className="p-4">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="text-xl font-medium tabular-nums">{value}</p>
+  </Card>
+);
+
+interface ChartCardProps {
+  icon: React.ElementType;
+  title: string;
+  children: React.ReactNode;
+}
+
+const ChartCard = ({ icon: Icon, title, children }: ChartCardProps) => (
+  <Card className="p-4 space-y-3">
+    <div className="flex items-center gap-2">
+      <Icon className="h-5 w-5 text-studio-primary" />
+      <h3 className="font-medium">{title}</h3>
+    </div>
+    {children}
+  </Card>
+);
+
+const Trends = () => {
+  const { data: summaries = [], isLoading } = useSessionSummaries();
+  const [tag, setTag] = useState(ALL_TAGS);
+  const [range, setRange] = useState<DateRange | undefined>();
+
+  const tags = useMemo(() => collectTags(summaries), [summaries]);
+  const filtered = useMemo(
+    () => filterSessions(summaries, { tag: tag === ALL_TAGS ? undefined : tag, from: range?.from, to: range?.to ?? range?.from }),
+    [summaries, tag, range]
+  );
+  const weeks = useMemo(() => aggregateByWeek(filtered), [filtered]);
+
+  const data = useMemo(
+    () => weeks.map(week => ({
+      week: week.week,
+      ...(week.emotions ?? {}),
+      lookingAtCamera: week.lookingAtCameraShare === null ? null : Math.round(week.lookingAtCameraShare * 100),
+      speakingMinutes: week.speakingSeconds === null ? null : Math.round(week.speakingSeconds / 6) / 10,
+      sessions: week.sessions,
+    })),
+    [weeks]
+  );
+
+  const totalDuration = filtered.reduce((sum, session) => sum + session.duration, 0);
+  const looking = filtered.filter(session => session.lookingAtCameraShare !== null);
+  const speaking = filtered.filter(session => session.speakingSeconds !== null);
+
+  const rangeLabel = range?.from
+    ? range.to && range.to.getTime() !== range.from.getTime()
+      ? `${format(range.from, 'MMM d, yyyy')} – ${format(range.to, 'MMM d, yyyy')}`
+      : format(range.from, 'MMM d, yyyy')
+    : 'All dates';
+
+  const xAxis = (
+    <XAxis dataKey="week" tickFormatter={weekLabel} tickLine={false} axisLine={false} />
+  );
+  const weekTooltip = (
+    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Week of ${weekLabel(payload?.[0]?.payload?.week)}`} />} />
+  );
+
+  return (
+    <>
+      <Header />
+      <main className="min-h-screen pt-20 pb-8 px-4">
+        <div className="container max-w-5xl space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <h1 className="text-2xl font-bold">Trends</h1>
+              <p className="text-muted-foreground">How your sessions change from week to week</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Select value={tag} onValueChange={setTag} disabled={tags.length === 0}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+                  {tags.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="font-normal">
+                    <CalendarRange className="mr-2 h-4 w-4" />
+                    {rangeLabel}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar mode="range" selected={range} onSelect={setRange} numberOfMonths={2} initialFocus />
+                </PopoverContent>
+              </Popover>
+              {range?.from && (
+                <Button variant="ghost" size="icon" onClick={() => setRange(undefined)} aria-label="Clear dates">
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+              <Activity className="h-4 w-4 animate-pulse" />
+              Loading sessions...
+            </div>
+          ) : filtered.length === 0 ? (
+            <Card className="p-8 text-center">
+              <div className="mb-4 mx-auto w-16 h-16 rounded-full bg-muted flex items-center justify-center">
+                <Video className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-xl font-medium mb-2">No sessions to chart</h3>
+              <p className="text-muted-foreground mb-4">
+                {summaries.length ? 'No recordings match these filters' : 'Record a session to start seeing trends'}
+              </p>
+              {summaries.length === 0 && (
+                <Link to="/record">
+                  <Button className="bg-studio-primary hover:bg-studio-primary/90">Start Recording</Button>
+                </Link>
+              )}
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Sessions" value={String(filtered.length)} />
+                <Stat label="Recorded" value={formatDuration(totalDuration)} />
+                <Stat
+                  label="At camera"
+                  value={looking.length
+                    ? `${Math.round(looking.reduce((sum, session) => sum + session.lookingAtCameraShare!, 0) / looking.length * 100)}%`
+                    : '—'}
+                />
+                <Stat
+                  label="Speaking"
+                  value={speaking.length
+                    ? formatDuration(speaking.reduce((sum, session) => sum + session.speakingSeconds!, 0))
+                    : '—'}
+                />
+              </div>
+
+              <ChartCard icon={Smile} title="Emotion Mix per Week">
+                <ChartContainer config={emotionConfig} className="h-64 w-full">
+                  <BarChart data={data}>
+                    <CartesianGrid vertical={false} />
+                    {xAxis}
+                    <YAxis
+                      domain={[0, 1]}
+                      tickFormatter={value => `${Math.round(value * 100)}%`}
+                      tickLine={false}
+                      axisLine={false}
+                      width={40}
+                    />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(_, payload) => `Week of ${weekLabel(payload?.[0]?.payload?.week)}`}
+                          formatter={(value, name) => (
+                            <div className="flex flex-1 justify-between gap-2">
+                              <span className="text-muted-foreground">{emotionConfig[name as keyof typeof emotionConfig]?.label}</span>
+                              <span className="font-mono tabular-nums">{Math.round(Number(value) * 100)}%</span>
+                            </div>
+                          )}
+                        />
+                      }
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {EMOTION_KEYS.map(key => (
+                      <Bar key={key} dataKey={key} stackId="emotions" fill={`var(--color-${key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <ChartCard icon={Eye} title="Looking at Camera">
+                  <ChartContainer config={metricConfig} className="h-48 w-full">
+                    <LineChart data={data}>
+                      <CartesianGrid vertical={false} />
+                      {xAxis}
+                      <YAxis
+                        domain={[0, 100]}
+                        tickFormatter={value => `${value}%`}
+                        tickLine={false}
+                        axisLine={false}
+                        width={40}
+                      />
+                      {weekTooltip}
+                      <Line
+                        dataKey="lookingAtCamera"
+                        stroke="var(--color-lookingAtCamera)"
+                        strokeWidth={2}
+                        dot
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </ChartCard>
+
+                <ChartCard icon={Mic} title="Speaking Minutes">
+                  <ChartContainer config={metricConfig} className="h-48 w-full">
+                    <BarChart data={data}>
+                      <CartesianGrid vertical={false} />
+                      {xAxis}
+                      <YAxis tickFormatter={value => `${Math.round(value)}m`} tickLine={false} axisLine={false} width={40} />
+                      {weekTooltip}
+                      <Bar dataKey="speakingMinutes" fill="var(--color-speakingMinutes)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </ChartCard>
+              </div>
+
+              <ChartCard icon={LineChartIcon} title="Sessions per Week">
+                <ChartContainer config={metricConfig} className="h-48 w-full">
+                  <BarChart data={data}>
+                    <CartesianGrid vertical={false} />
+                    {xAxis}
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                    {weekTooltip}
+                    <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <p className="text-xs text-muted-foreground">
+                Weekly figures are weighted by session length. Sessions without emotion, gaze or audio
+                data are left out of those charts.
+              </p>
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default Trends;
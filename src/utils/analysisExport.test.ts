@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ANALYSIS_EXPORT_SCHEMA,
+  ANALYSIS_EXPORT_VERSION,
+  emotionsToCsv,
+  emotionsToWebVtt,
+  toAnalysisExport,
+} from '@/utils/analysisExport';
+import type { EmotionScores } from '@/utils/emotionDetection';
+import type { EmotionSample } from '@/utils/emotionTimeline';
+import type { RecordingMetadata } from '@/utils/recordingStore';
+
+// A score of zero for every emotion
+const NO_SCORES: EmotionScores = { happy: 0, neutral: 0, surprised: 0, sad: 0, angry: 0, disgust: 0, fear: 0 };
+
+const sample = (time: number, emotion: string, confidence: number, changes: Partial<EmotionSample> = {}): EmotionSample => ({
+  time,
+  emotion,
+  confidence,
+  scores: { ...NO_SCORES, [emotion]: confidence },
+  faceDetected: true,
+  ...changes,
+});
+
+describe('emotionsToCsv', () => {
+  it('writes a header and one CRLF-terminated row per sample', () => {
+    const csv = emotionsToCsv([sample(1500, 'happy', 0.812345)]);
+    const [header, row, end] = csv.split('\r\n');
+
+    expect(header).toBe(
+      'time_seconds,emotion,confidence,face_detected,happy,neutral,surprised,sad,angry,disgust,fear,smoothed_emotion,smoothed_confidence'
+    );
+    expect(row).toBe('1.5,happy,0.8123,true,0.8123,0,0,0,0,0,0,,');
+    expect(end).toBe('');
+  });
+
+  it('fills the smoothed columns when the sample was smoothed', () => {
+    const smoothed = { emotion: 'neutral', confidence: 0.55556, scores: NO_SCORES };
+    const row = emotionsToCsv([sample(0, 'happy', 0.9, { smoothed })]).split('\r\n')[1];
+
+    expect(row).toMatch(/,neutral,0\.5556$/);
+  });
+
+  it('quotes fields containing separators or quotes', () => {
+    const row = emotionsToCsv([sample(0, 'say "cheese", ok', 0.5)]).split('\r\n')[1];
+
+    expect(row).toContain(',"say ""cheese"", ok",');
+  });
+
+  it('writes only the header for an empty timeline', () => {
+    expect(emotionsToCsv([]).split('\r\n')).toHaveLength(2);
+  });
+});
+
+describe('toAnalysisExport', () => {
+  it('wraps the recording and analysis in a versioned document', () => {
+    const recording: RecordingMetadata = {
+      id: 'abc',
+      title: 'Practice',
+      createdAt: '2024-05-01T10:00:00.000Z',
+      duration: 12,
+      mimeType: 'video/webm',
+      size: 1024,
+      thumbnail: 'data:image/jpeg;base64,',
+      tags: ['interview'],
+    };
+    const analysis = { emotions: [sample(0, 'happy', 0.9)] };
+    const exported = toAnalysisExport(recording, analysis);
+
+    expect(exported.$schema).toBe(ANALYSIS_EXPORT_SCHEMA);
+    expect(ANALYSIS_EXPORT_SCHEMA).toMatch(/^[a-z][a-z0-9+.-]*:.*v1$/);
+    expect(exported.version).toBe(ANALYSIS_EXPORT_VERSION);
+    expect(Number.isNaN(Date.parse(exported.exportedAt))).toBe(false);
+    expect(exported.recording).toEqual({
+      id: 'abc',
+      title: 'Practice',
+      createdAt: '2024-05-01T10:00:00.000Z',
+      duration: 12,
+      mimeType: 'video/webm',
+      capture: undefined,
+      tags: ['interview'],
+    });
+    expect(exported.analysis).toBe(analysis);
+  });
+});
+
+describe('emotionsToWebVtt', () => {
+  it('merges runs of the same emotion into one cue and closes the last at the duration', () => {
+    const vtt = emotionsToWebVtt(
+      [sample(0, 'happy', 0.8), sample(500, 'happy', 0.6), sample(1000, 'sad', 0.9)],
+      3725.5
+    );
+
+    expect(vtt).toBe(
+      'WEBVTT\n\n' +
+      '1\n00:00:00.000 --> 00:00:01.000\nHappy (70%)\n\n' +
+      '2\n00:00:01.000 --> 01:02:05.500\nSad (90%)\n'
+    );
+  });
+
+  it('uses the smoothed series where there is one', () => {
+    const smoothed = { emotion: 'neutral', confidence: 0.5, scores: NO_SCORES };
+    const vtt = emotionsToWebVtt([sample(0, 'happy', 0.9, { smoothed })], 0);
+
+    expect(vtt).toContain('00:00:00.000 --> 00:00:01.000\nNeutral (50%)');
+  });
+
+  it('labels cues below the threshold as uncertain', () => {
+    const vtt = emotionsToWebVtt([sample(0, 'fear', 0.3)], 2, 0.4);
+
+    expect(vtt).toContain('Uncertain (30%)');
+  });
+
+  it('writes only the header for an empty timeline', () => {
+    expect(emotionsToWebVtt([], 10)).toBe('WEBVTT\n');
+  });
+});
@@ -0,0 +1,141 @@
+import type { EmotionScores } from '@/utils/emotionDetection';
+import { selectSeries, type EmotionSample } from '@/utils/emotionTimeline';
+import { EMOTION_KEYS } from '@/utils/emotionPalette';
+import type { RecordingAnalysis, RecordingMetadata } from '@/utils/recordingStore';
+
+/**
+ * Bumped whenever the exported JSON changes shape: a field is removed,
+ * renamed, retyped or made required. New optional fields (such as the
+ * recording's tags) are not a change of shape, since the schema allows
+ * additional properties and readers ignore fields they do not know.
+ */
+export const ANALYSIS_EXPORT_VERSION = 1;
+
+/**
+ * Absolute, versioned $id of the JSON Schema describing the exported document.
+ * It does not depend on where the app is deployed; the schema itself is served
+ * at schemas/analysis-v1.schema.json under the app's base URL.
+ */
+export const ANALYSIS_EXPORT_SCHEMA = `urn:videomotion-studio:schema:analysis:v${ANALYSIS_EXPORT_VERSION}`;
+
+export interface AnalysisExport {
+  $schema: string;
+  version: typeof ANALYSIS_EXPORT_VERSION;
+  /** ISO 8601 timestamp of when the file was written */
+  exportedAt: string;
+  recording: Pick<RecordingMetadata, 'id' | 'title' | 'createdAt' | 'duration' | 'mimeType' | 'capture' | 'tags'>;
+  analysis: RecordingAnalysis;
+}
+
+// How long the last cue lasts when the video's duration is unknown
+const LAST_CUE_MS = 1000;
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break
+ */
+const csvField = (value: string | number | boolean | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+/**
+ * Writes one row per emotion sample, with a column per emotion's score.
+ * Smoothed columns are left empty for samples recorded without smoothing.
+ */
+export const emotionsToCsv = (samples: EmotionSample[]): string => {
+  const header = [
+    'time_seconds',
+    'emotion',
+    'confidence',
+    'face_detected',
+    ...EMOTION_KEYS,
+    'smoothed_emotion',
+    'smoothed_confidence',
+  ];
+
+  const rows = samples.map(sample => [
+    round(sample.time / 1000, 3),
+    sample.emotion,
+    round(sample.confidence),
+    sample.faceDetected,
+    ...EMOTION_KEYS.map(key => round(sample.scores[key])),
+    sample.smoothed?.emotion,
+    sample.smoothed && round(sample.smoothed.confidence),
+  ].map(csvField).join(','));
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * Bundles a recording's metadata and analysis into a versioned document
+ */
+export const toAnalysisExport = (recording: RecordingMetadata, analysis: RecordingAnalysis): AnalysisExport => ({
+  $schema: ANALYSIS_EXPORT_SCHEMA,
+  version: ANALYSIS_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  recording: {
+    id: recording.id,
+    title: recording.title,
+    createdAt: recording.createdAt,
+    duration: recording.duration,
+    mimeType: recording.mimeType,
+    capture: recording.capture,
+    tags: recording.tags,
+  },
+  analysis,
+});
+
+const vttTimestamp = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+};
+
+interface EmotionCue {
+  start: number;
+  end: number;
+  emotion: string;
+  confidenceSum: number;
+  samples: number;
+}
+
+/**
+ * Writes a WebVTT track with one cue per run of the same dominant emotion,
+ * using the smoothed series where there is one. Each cue's text is the
+ * emotion and its average confidence, so any player can show it as captions.
+ * @param duration - Length of the video in seconds, to close the last cue
+ * @param uncertaintyThreshold - Runs averaging below this are labeled uncertain
+ */
+export const emotionsToWebVtt = (samples: EmotionSample[], duration: number, uncertaintyThreshold = 0): string => {
+  const series = selectSeries(samples, 'smoothed');
+  const cues: EmotionCue[] = [];
+
+  series.forEach((sample, index) => {
+    const end = series[index + 1]?.time ?? Math.max(sample.time + LAST_CUE_MS, duration * 1000);
+    const last = cues[cues.length - 1];
+    if (last?.emotion === sample.emotion) {
+      last.end = end;
+      last.confidenceSum += sample.confidence;
+      last.samples++;
+    } else {
+      cues.push({ start: sample.time, end, emotion: sample.emotion, confidenceSum: sample.confidence, samples: 1 });
+    }
+  });
+
+  const body = cues.map((cue, index) => {
+    const confidence = cue.confidenceSum / cue.samples;
+    const label = confidence < uncertaintyThreshold
+      ? 'Uncertain'
+      : cue.emotion.charAt(0).toUpperCase() + cue.emotion.slice(1);
+    return `${index + 1}\n${vttTimestamp(cue.start)} --> ${vttTimestamp(cue.end)}\n${label} (${Math.round(confidence * 100)}%)`;
+  });
+
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+};
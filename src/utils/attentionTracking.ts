@@ -0,0 +1,212 @@
+import { FaceLandmarker, type Classifications, type Matrix } from '@mediapipe/tasks-vision';
+import { createVisionTask, loadModelAsset, MEDIAPIPE_MODELS, visionWasmFileset } from '@/utils/mediapipe';
+
+// How far the head may turn, in degrees, while still facing the camera
+const YAW_LIMIT = 20;
+const PITCH_LIMIT = 15;
+// How far the eyes may look off-centre, in blendshape units (0-1), while still on the camera
+const GAZE_LIMIT = 0.35;
+// Eyes this closed are mid-blink and their gaze is meaningless
+const BLINK_THRESHOLD = 0.5;
+
+/**
+ * A box in normalized video coordinates (0-1)
+ */
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a face was pointed in a single frame
+ */
+export interface AttentionEstimate {
+  faceDetected: boolean;
+  lookingAtCamera: boolean;
+  /** 1 when looking straight at the camera, falling to 0 when looking well away */
+  attention: number;
+  /** Head rotation in degrees; zero is facing the camera */
+  yaw: number;
+  pitch: number;
+  roll: number;
+  /** Eye direction relative to the head, -1 to 1; positive is towards the subject's left and up */
+  gazeX: number;
+  gazeY: number;
+  /** Both eyes closed, so the gaze carries over from the previous frame */
+  blinking: boolean;
+  /** Bounds of the face landmarks */
+  faceBox?: NormalizedBox;
+}
+
+/**
+ * An attention estimate captured during a recording
+ */
+export interface AttentionSample extends AttentionEstimate {
+  /** Milliseconds into the recorded video */
+  time: number;
+}
+
+export interface AttentionWindow {
+  /** Adds an estimate, or null when no face was found */
+  push: (estimate: AttentionEstimate | null, timestamp: number) => { focused: number; distracted: number };
+  reset: () => void;
+}
+
+const NO_FACE: AttentionEstimate = {
+  faceDetected: false,
+  lookingAtCamera: false,
+  attention: 0,
+  yaw: 0,
+  pitch: 0,
+  roll: 0,
+  gazeX: 0,
+  gazeY: 0,
+  blinking: false,
+};
+
+let faceLandmarker: FaceLandmarker | null = null;
+let lastTimestamp = 0;
+let lastGaze = { gazeX: 0, gazeY: 0 };
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Reads yaw, pitch and roll from the column-major facial transformation matrix
+ */
+const headPose = ({ data }: Matrix) => {
+  const at = (row: number, column: number) => data[column * 4 + row];
+  return {
+    yaw: toDegrees(Math.atan2(at(0, 2), at(2, 2))),
+    pitch: toDegrees(Math.asin(Math.max(-1, Math.min(1, -at(1, 2))))),
+    roll: toDegrees(Math.atan2(at(1, 0), at(1, 1))),
+  };
+};
+
+/**
+ * Combines the per-eye look blendshapes into one gaze direction
+ */
+const eyeGaze = (blendshapes: Classifications) => {
+  const score = (name: string) =>
+    blendshapes.categories.find(category => category.categoryName === name)?.score ?? 0;
+
+  // An eye looking "out" on the left and "in" on the right both point to the subject's left
+  const gazeX = (score('eyeLookOutLeft') - score('eyeLookInLeft') + score('eyeLookInRight') - score('eyeLookOutRight')) / 2;
+  const gazeY = (score('eyeLookUpLeft') - score('eyeLookDownLeft') + score('eyeLookUpRight') - score('eyeLookDownRight')) / 2;
+  const blinking = score('eyeBlinkLeft') > BLINK_THRESHOLD && score('eyeBlinkRight') > BLINK_THRESHOLD;
+  return { gazeX, gazeY, blinking };
+};
+
+/**
+ * Loads the MediaPipe face landmarker with blendshapes and head pose
+ */
+export const loadAttentionModel = async (): Promise<boolean> => {
+  if (faceLandmarker) return true;
+
+  try {
+    const model = await loadModelAsset(MEDIAPIPE_MODELS.faceLandmarker);
+    faceLandmarker = await createVisionTask(delegate =>
+      FaceLandmarker.createFromOptions(visionWasmFileset, {
+        baseOptions: { modelAssetBuffer: model, delegate },
+        runningMode: 'VIDEO',
+        numFaces: 1,
+        outputFaceBlendshapes: true,
+        outputFacialTransformationMatrixes: true
+      })
+    );
+    console.log('Face landmark model loaded successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to load face landmark model:', error);
+    return false;
+  }
+};
+
+/**
+ * Releases the face landmarker
+ */
+export const disposeAttentionModel = () => {
+  faceLandmarker?.close();
+  faceLandmarker = null;
+  lastGaze = { gazeX: 0, gazeY: 0 };
+};
+
+/**
+ * Estimates head pose and gaze in the current video frame. Head and eyes are
+ * judged separately, so turning the head while looking back at the camera
+ * counts as looking away.
+ * @returns The estimate, or null if the model is not loaded or the video has no frame yet
+ */
+export const estimateAttention = (videoElement: HTMLVideoElement): AttentionEstimate | null => {
+  if (!faceLandmarker || !videoElement.videoWidth) return null;
+
+  // detectForVideo requires strictly increasing timestamps
+  const timestamp = Math.max(performance.now(), lastTimestamp + 1);
+  lastTimestamp = timestamp;
+
+  const result = faceLandmarker.detectForVideo(videoElement, timestamp);
+  const matrix = result.facialTransformationMatrixes?.[0];
+  const blendshapes = result.faceBlendshapes?.[0];
+  const landmarks = result.faceLandmarks[0];
+  if (!matrix || !blendshapes || !landmarks) return NO_FACE;
+
+  const xs = landmarks.map(landmark => landmark.x);
+  const ys = landmarks.map(landmark => landmark.y);
+  const faceBox = {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+
+  const pose = headPose(matrix);
+  const eyes = eyeGaze(blendshapes);
+  const gaze = eyes.blinking ? lastGaze : { gazeX: eyes.gazeX, gazeY: eyes.gazeY };
+  lastGaze = gaze;
+
+  // How far outside its limit the furthest-off signal is; 1 is right on the limit
+  const deviation = Math.max(
+    Math.abs(pose.yaw) / YAW_LIMIT,
+    Math.abs(pose.pitch) / PITCH_LIMIT,
+    Math.abs(gaze.gazeX) / GAZE_LIMIT,
+    Math.abs(gaze.gazeY) / GAZE_LIMIT
+  );
+
+  return {
+    faceDetected: true,
+    lookingAtCamera: deviation <= 1,
+    attention: Math.max(0, Math.min(1, 1 - deviation / 2)),
+    ...pose,
+    ...gaze,
+    blinking: eyes.blinking,
+    faceBox,
+  };
+};
+
+/**
+ * Tracks the share of recent frames spent looking at the camera
+ * @param windowMs - How far back to look, in milliseconds
+ */
+export const createAttentionWindow = (windowMs = 10000): AttentionWindow => {
+  let entries: { timestamp: number; looking: boolean }[] = [];
+
+  return {
+    push: (estimate, timestamp) => {
+      entries = [...entries, { timestamp, looking: !!estimate?.lookingAtCamera }]
+        .filter(entry => timestamp - entry.timestamp <= windowMs);
+      const focused = entries.filter(entry => entry.looking).length / entries.length;
+      return { focused, distracted: 1 - focused };
+    },
+    reset: () => {
+      entries = [];
+    },
+  };
+};
+
+/**
+ * Share of a recording's samples spent looking at the camera
+ * @returns A fraction from 0 to 1, or null if there are no samples
+ */
+export const lookingAtCameraShare = (samples: AttentionSample[]): number | null =>
+  samples.length > 0 ? samples.filter(sample => sample.lookingAtCamera).length / samples.length : null;
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createAudioStatsTracker, type AudioLevel } from '@/utils/audioLevels';
+
+// A window with its RMS at the given level in dBFS
+const level = (db: number): AudioLevel => {
+  const amplitude = 10 ** (db / 20);
+  return { rms: amplitude, peak: amplitude, clipping: false };
+};
+
+describe('createAudioStatsTracker', () => {
+  it('counts speech above the background noise as voiced', () => {
+    const tracker = createAudioStatsTracker();
+    for (let i = 0; i < 20; i++) tracker.push(level(-45), 50);
+    for (let i = 0; i < 40; i++) tracker.push(level(-20), 50);
+
+    expect(tracker.summary().voicedSeconds).toBeCloseTo(2);
+  });
+
+  it('does not count steady background noise above the silence threshold as voiced', () => {
+    const tracker = createAudioStatsTracker();
+    for (let i = 0; i < 100; i++) tracker.push(level(-40), 50);
+
+    const { silentSeconds, voicedSeconds } = tracker.summary();
+    expect(silentSeconds).toBe(0);
+    expect(voicedSeconds).toBe(0);
+  });
+
+  it('counts only the time it was given', () => {
+    const tracker = createAudioStatsTracker();
+    tracker.push(level(-70), 1000);
+    tracker.push(level(-20), 1000);
+
+    const { silentSeconds, voicedSeconds } = tracker.summary();
+    expect(silentSeconds).toBe(1);
+    expect(voicedSeconds).toBe(1);
+  });
+
+  it('starts over after reset', () => {
+    const tracker = createAudioStatsTracker();
+    tracker.push(level(-70), 1000);
+    tracker.push(level(-20), 1000);
+    tracker.reset();
+
+    expect(tracker.summary()).toMatchObject({ silentSeconds: 0, voicedSeconds: 0, clippingEvents: 0 });
+  });
+});
@@ -0,0 +1,213 @@
+import { createFrameClock } from '@/utils/frameClock';
+
+/**
+ * Loudness of a short slice of audio, as linear amplitudes (0-1)
+ */
+export interface AudioLevel {
+  rms: number;
+  peak: number;
+  /** True if any sample reached full scale */
+  clipping: boolean;
+}
+
+/**
+ * Loudness summary of a whole recording
+ */
+export interface AudioStats {
+  /** Loudest sample, in dBFS */
+  peakDb: number;
+  /** RMS level over the whole recording, in dBFS */
+  rmsDb: number;
+  /** How many times the signal started clipping */
+  clippingEvents: number;
+  /** Total time the microphone was silent, in seconds */
+  silentSeconds: number;
+  /**
+   * Time with sound clearly above the background noise, in seconds. Only
+   * measured time counts, so a muted or paused microphone adds nothing.
+   * Absent for recordings made before it was measured.
+   */
+  voicedSeconds?: number;
+}
+
+export interface AudioMeter {
+  /**
+   * Calls the listener with the level of each window
+   * @returns A function that unsubscribes
+   */
+  subscribe: (listener: (level: AudioLevel) => void) => () => void;
+  /** Measures a new microphone track, or nothing */
+  setSource: (track: MediaStreamTrack | null) => void;
+  /** Resumes audio processing; browsers only allow this after a user gesture */
+  resume: () => Promise<void>;
+  dispose: () => void;
+}
+
+export interface AudioStatsTracker {
+  /** Adds a level that lasted the given number of milliseconds */
+  push: (level: AudioLevel, duration: number) => void;
+  /** How long the signal has been continuously silent, in milliseconds */
+  silentFor: () => number;
+  summary: () => AudioStats;
+  reset: () => void;
+}
+
+// Samples at or above this are treated as clipped
+export const CLIPPING_THRESHOLD = 0.99;
+
+// Below this the microphone is considered silent
+export const SILENCE_THRESHOLD_DB = -50;
+
+// The quietest level reported, so silence is not -Infinity
+export const MIN_DB = -100;
+
+// How far above the background noise a window must be to count as voiced
+const VOICE_MARGIN_DB = 10;
+// How fast the noise floor estimate creeps up when nothing quieter is heard
+const NOISE_FLOOR_RISE_DB_PER_SECOND = 1;
+
+// How often levels are reported, in milliseconds
+const REPORT_INTERVAL = 50;
+
+// How often the analyser is read; its 2048-sample window spans about 43 ms at 48 kHz
+const MEASURE_INTERVAL = 20;
+
+/**
+ * Converts a linear amplitude to decibels relative to full scale
+ */
+export const toDecibels = (amplitude: number): number =>
+  amplitude > 0 ? Math.max(MIN_DB, 20 * Math.log10(amplitude)) : MIN_DB;
+
+/**
+ * Measures a microphone with a Web Audio analyser. Levels are aggregated
+ * over short windows so listeners are not called on every reading. Readings
+ * are taken on a worker clock, so silence keeps being measured while the
+ * tab is hidden.
+ */
+export const createAudioMeter = (): AudioMeter => {
+  const listeners = new Set<(level: AudioLevel) => void>();
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  const samples = new Float32Array(analyser.fftSize);
+  let source: MediaStreamAudioSourceNode | null = null;
+
+  let sumSquares = 0;
+  let frames = 0;
+  let peak = 0;
+  let clipping = false;
+  let lastReport = performance.now();
+
+  const measure = (now: number) => {
+    if (!source) return;
+
+    analyser.getFloatTimeDomainData(samples);
+    let squares = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const amplitude = Math.abs(samples[i]);
+      squares += samples[i] * samples[i];
+      if (amplitude > peak) peak = amplitude;
+      if (amplitude >= CLIPPING_THRESHOLD) clipping = true;
+    }
+    sumSquares += squares / samples.length;
+    frames++;
+
+    if (now - lastReport >= REPORT_INTERVAL) {
+      const level = { rms: Math.sqrt(sumSquares / frames), peak: Math.min(1, peak), clipping };
+      listeners.forEach(listener => listener(level));
+      sumSquares = 0;
+      frames = 0;
+      peak = 0;
+      clipping = false;
+      lastReport = now;
+    }
+  };
+  const clock = createFrameClock(MEASURE_INTERVAL, measure);
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setSource: (track) => {
+      source?.disconnect();
+      source = null;
+      if (track) {
+        source = audioContext.createMediaStreamSource(new MediaStream([track]));
+        source.connect(analyser);
+      }
+    },
+    resume: () => audioContext.resume(),
+    dispose: () => {
+      clock.stop();
+      listeners.clear();
+      source?.disconnect();
+      audioContext.close();
+    },
+  };
+};
+
+/**
+ * Accumulates levels into a summary of a recording's audio. Voiced time is
+ * measured against a running estimate of the background noise, which follows
+ * the quietest windows down at once and drifts back up slowly.
+ */
+export const createAudioStatsTracker = (): AudioStatsTracker => {
+  let peak = 0;
+  let weightedSquares = 0;
+  let totalDuration = 0;
+  let clippingEvents = 0;
+  let wasClipping = false;
+  let silentTime = 0;
+  let currentSilence = 0;
+  let voicedTime = 0;
+  let noiseFloorDb: number | null = null;
+
+  return {
+    push: (level, duration) => {
+      peak = Math.max(peak, level.peak);
+      weightedSquares += level.rms * level.rms * duration;
+      totalDuration += duration;
+
+      // Count each run of clipped windows once
+      if (level.clipping && !wasClipping) clippingEvents++;
+      wasClipping = level.clipping;
+
+      const db = toDecibels(level.rms);
+      if (db < SILENCE_THRESHOLD_DB) {
+        silentTime += duration;
+        currentSilence += duration;
+      } else {
+        currentSilence = 0;
+      }
+
+      noiseFloorDb = noiseFloorDb === null || db < noiseFloorDb
+        ? db
+        : noiseFloorDb + NOISE_FLOOR_RISE_DB_PER_SECOND * (duration / 1000);
+      if (db >= SILENCE_THRESHOLD_DB && db >= noiseFloorDb + VOICE_MARGIN_DB) {
+        voicedTime += duration;
+      }
+    },
+    silentFor: () => currentSilence,
+    summary: () => ({
+      peakDb: toDecibels(peak),
+      rmsDb: toDecibels(totalDuration > 0 ? Math.sqrt(weightedSquares / totalDuration) : 0),
+      clippingEvents,
+      silentSeconds: silentTime / 1000,
+      voicedSeconds: voicedTime / 1000,
+    }),
+    reset: () => {
+      peak = 0;
+      weightedSquares = 0;
+      totalDuration = 0;
+      clippingEvents = 0;
+      wasClipping = false;
+      silentTime = 0;
+      currentSilence = 0;
+      voicedTime = 0;
+      noiseFloorDb = null;
+    },
+  };
+};
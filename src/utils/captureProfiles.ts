@@ -0,0 +1,103 @@
+import type { VideoCodec } from '@/utils/recordingFormats';
+import type { CompositeLayout } from '@/utils/recordingStream';
+
+export interface CaptureProfile {
+  id: string;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  /** Codecs to record with, best first; the first one the browser supports wins */
+  codecs: VideoCodec[];
+}
+
+/**
+ * What a recording was actually captured with. Cameras treat the profile's
+ * resolution and frame rate as a request, so these are read back from the track.
+ */
+export interface CaptureSettings {
+  profile: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  /** What was being recorded when the recording started; absent means camera only */
+  layout?: CompositeLayout;
+}
+
+export const CAPTURE_PROFILES: CaptureProfile[] = [
+  {
+    id: '480p',
+    label: '480p · Low bandwidth',
+    description: '854×480 at 24 fps, about 1 Mbps',
+    width: 854,
+    height: 480,
+    frameRate: 24,
+    videoBitsPerSecond: 1_000_000,
+    audioBitsPerSecond: 64_000,
+    // Favour compression over encode cost when bandwidth is the constraint
+    codecs: ['av1', 'vp9', 'h264', 'vp8'],
+  },
+  {
+    id: '720p30',
+    label: '720p · 30 fps',
+    description: '1280×720 at 30 fps, about 2.5 Mbps',
+    width: 1280,
+    height: 720,
+    frameRate: 30,
+    videoBitsPerSecond: 2_500_000,
+    audioBitsPerSecond: 128_000,
+    codecs: ['vp9', 'h264', 'av1', 'vp8'],
+  },
+  {
+    id: '1080p30',
+    label: '1080p · 30 fps',
+    description: '1920×1080 at 30 fps, about 5 Mbps',
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    videoBitsPerSecond: 5_000_000,
+    audioBitsPerSecond: 128_000,
+    // Software AV1 struggles to keep up at 1080p, so prefer codecs with hardware encoders
+    codecs: ['h264', 'vp9', 'vp8', 'av1'],
+  },
+];
+
+export const DEFAULT_CAPTURE_PROFILE = '720p30';
+
+/**
+ * Gets a profile by id, falling back to the default profile
+ */
+export const getCaptureProfile = (id: string): CaptureProfile =>
+  CAPTURE_PROFILES.find(profile => profile.id === id)
+    ?? CAPTURE_PROFILES.find(profile => profile.id === DEFAULT_CAPTURE_PROFILE)!;
+
+/**
+ * getUserMedia constraints for a profile. Values are ideals, so cameras that
+ * cannot match them exactly still open at their closest mode.
+ */
+export const videoConstraintsFor = (profile: CaptureProfile, deviceId?: ConstrainDOMString): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId } : {}),
+  width: { ideal: profile.width },
+  height: { ideal: profile.height },
+  frameRate: { ideal: profile.frameRate },
+});
+
+/**
+ * Reads back what the camera actually delivered for a profile
+ */
+export const readCaptureSettings = (profile: CaptureProfile, videoTrack: MediaStreamTrack | undefined): CaptureSettings => {
+  const applied = videoTrack?.getSettings() ?? {};
+  return {
+    profile: profile.id,
+    width: applied.width ?? profile.width,
+    height: applied.height ?? profile.height,
+    frameRate: Math.min(applied.frameRate ?? profile.frameRate, profile.frameRate),
+    videoBitsPerSecond: profile.videoBitsPerSecond,
+    audioBitsPerSecond: profile.audioBitsPerSecond,
+  };
+};
@@ -0,0 +1,20 @@
+/**
+ * Turns a recording title into something safe to use as a file name
+ */
+export const toFileName = (title: string) => title.replace(/[^\w-]+/g, '-');
+
+/**
+ * Triggers a browser download for a blob
+ * @param blob - The data to download
+ * @param filename - Suggested name of the saved file
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
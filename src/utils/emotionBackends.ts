@@ -0,0 +1,92 @@
+import type { EmotionScores } from '@/utils/emotionDetection';
+
+export type EmotionLabel = keyof EmotionScores;
+
+export interface EmotionBackendMetadata {
+  id: string;
+  label: string;
+  description: string;
+  /** Library the model runs on */
+  runtime: string;
+  /** Whether the model is served with the app rather than downloaded */
+  offline: boolean;
+}
+
+/**
+ * An emotion classifier that can run inside the emotion worker.
+ * Implementations receive an aligned face crop and return a score per label.
+ */
+export interface EmotionBackend {
+  readonly metadata: EmotionBackendMetadata;
+  /** The emotions this model can tell apart; the rest always score 0 */
+  readonly labels: readonly EmotionLabel[];
+  load: () => Promise<void>;
+  classify: (image: ImageData) => Promise<EmotionScores>;
+  dispose: () => Promise<void>;
+}
+
+interface RegisteredBackend {
+  metadata: EmotionBackendMetadata;
+  create: () => Promise<EmotionBackend>;
+}
+
+export const DEFAULT_EMOTION_BACKEND = 'transformers';
+
+const registry = new Map<string, RegisteredBackend>();
+
+/**
+ * Makes a backend selectable. The factory is only called inside the worker,
+ * so it should import its model library lazily.
+ */
+export const registerEmotionBackend = (
+  metadata: EmotionBackendMetadata,
+  create: () => Promise<EmotionBackend>
+) => {
+  registry.set(metadata.id, { metadata, create });
+};
+
+/**
+ * Lists every registered backend, in registration order
+ */
+export const listEmotionBackends = (): EmotionBackendMetadata[] =>
+  Array.from(registry.values(), entry => entry.metadata);
+
+/**
+ * Gets a backend's metadata
+ * @returns The metadata, or null if no backend has that id
+ */
+export const getEmotionBackendMetadata = (id: string): EmotionBackendMetadata | null =>
+  registry.get(id)?.metadata ?? null;
+
+/**
+ * Instantiates a registered backend (without loading its model)
+ */
+export const createEmotionBackend = (id: string): Promise<EmotionBackend> => {
+  const entry = registry.get(id);
+  if (!entry) {
+    return Promise.reject(new Error(`Unknown emotion backend: ${id}`));
+  }
+  return entry.create();
+};
+
+registerEmotionBackend(
+  {
+    id: 'transformers',
+    label: 'ViT (Hugging Face)',
+    description: 'Xenova/emotion-recognition-75, downloaded on first use',
+    runtime: 'transformers.js',
+    offline: false
+  },
+  () => import('@/workers/backends/transformersBackend').then(module => module.createTransformersBackend())
+);
+
+registerEmotionBackend(
+  {
+    id: 'tfjs',
+    label: 'CNN (bundled, offline)',
+    description: '48x48 grayscale Keras model served with the app',
+    runtime: 'TensorFlow.js',
+    offline: true
+  },
+  () => import('@/workers/backends/tfjsBackend').then(module => module.createTfjsBackend())
+);
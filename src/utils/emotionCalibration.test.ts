@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  applyTemperature,
+  calibrate,
+  crossValidatedPredictions,
+  evaluatePredictions,
+  fitTemperature,
+  labelFromPath,
+  type LabeledPrediction,
+} from '@/utils/emotionCalibration';
+import type { EmotionLabel } from '@/utils/emotionBackends';
+import type { EmotionScores } from '@/utils/emotionDetection';
+
+// The model itself is not needed to fit or score predictions
+vi.mock('@/utils/emotionDetection', () => ({ classifyImage: vi.fn() }));
+
+// A model that is right exactly as often as it says: 60% happy, 20% neutral, 4% each of the rest
+const CALIBRATED: EmotionScores = {
+  happy: 0.6,
+  neutral: 0.2,
+  surprised: 0.04,
+  sad: 0.04,
+  angry: 0.04,
+  disgust: 0.04,
+  fear: 0.04,
+};
+
+// One prediction per label, in proportion to the calibrated scores
+const labeledSet = (scores: EmotionScores): LabeledPrediction[] =>
+  (Object.keys(CALIBRATED) as EmotionLabel[]).flatMap(label =>
+    Array.from({ length: Math.round(CALIBRATED[label] * 100) }, () => ({ scores, label }))
+  );
+
+// The same model with its logits doubled, so it is overconfident by a temperature of 2
+const OVERCONFIDENT = applyTemperature(CALIBRATED, 0.5);
+
+const sum = (scores: EmotionScores) => Object.values(scores).reduce((total, value) => total + value, 0);
+
+describe('applyTemperature', () => {
+  it('leaves scores unchanged at a temperature of 1', () => {
+    const scaled = applyTemperature(CALIBRATED, 1);
+    Object.entries(CALIBRATED).forEach(([key, value]) => {
+      expect(scaled[key as EmotionLabel]).toBeCloseTo(value);
+    });
+  });
+
+  it('softens above 1 and sharpens below, keeping the top emotion and a total of 1', () => {
+    const softened = applyTemperature(CALIBRATED, 2);
+    const sharpened = applyTemperature(CALIBRATED, 0.5);
+
+    expect(softened.happy).toBeLessThan(CALIBRATED.happy);
+    expect(sharpened.happy).toBeGreaterThan(CALIBRATED.happy);
+    expect(sum(softened)).toBeCloseTo(1);
+    expect(sum(sharpened)).toBeCloseTo(1);
+  });
+});
+
+describe('evaluatePredictions', () => {
+  it('reports no calibration error for a calibrated model', () => {
+    const { accuracy, ece } = evaluatePredictions(labeledSet(CALIBRATED));
+
+    expect(accuracy).toBeCloseTo(0.6);
+    expect(ece).toBeCloseTo(0);
+  });
+
+  it('reports the gap between confidence and accuracy for an overconfident model', () => {
+    const { accuracy, ece } = evaluatePredictions(labeledSet(OVERCONFIDENT));
+
+    expect(accuracy).toBeCloseTo(0.6);
+    expect(ece).toBeCloseTo(OVERCONFIDENT.happy - 0.6);
+  });
+});
+
+describe('fitTemperature', () => {
+  it('recovers the temperature a model is overconfident by', () => {
+    expect(fitTemperature(labeledSet(OVERCONFIDENT))).toBeCloseTo(2, 2);
+  });
+
+  it('fits a temperature of 1 to a calibrated model', () => {
+    expect(fitTemperature(labeledSet(CALIBRATED))).toBeCloseTo(1, 2);
+  });
+});
+
+describe('crossValidatedPredictions', () => {
+  it('scales every prediction once and keeps its label', () => {
+    const predictions = labeledSet(OVERCONFIDENT);
+    const heldOut = crossValidatedPredictions(predictions, 5);
+
+    expect(heldOut).toHaveLength(predictions.length);
+    const countLabels = (items: LabeledPrediction[]) =>
+      items.reduce<Record<string, number>>((counts, { label }) => ({ ...counts, [label]: (counts[label] ?? 0) + 1 }), {});
+    expect(countLabels(heldOut)).toEqual(countLabels(predictions));
+    heldOut.forEach(({ scores }) => expect(scores.happy).toBeLessThan(OVERCONFIDENT.happy));
+  });
+
+  it('uses no more folds than there are predictions', () => {
+    const predictions = labeledSet(OVERCONFIDENT).slice(0, 3);
+    expect(crossValidatedPredictions(predictions, 5)).toHaveLength(3);
+  });
+});
+
+describe('calibrate', () => {
+  it('lowers the held-out calibration error of an overconfident model', () => {
+    const result = calibrate(labeledSet(OVERCONFIDENT));
+
+    expect(result.temperature).toBeCloseTo(2, 2);
+    expect(result.samples).toBe(100);
+    expect(result.ece).toBeLessThan(result.eceBefore);
+    expect(result.nll).toBeLessThan(result.nllBefore);
+  });
+
+  it('needs at least two labeled images', () => {
+    expect(() => calibrate(labeledSet(CALIBRATED).slice(0, 1))).toThrow('At least two labeled images');
+  });
+});
+
+describe('labelFromPath', () => {
+  it('reads the label from the nearest emotion folder, accepting dataset aliases', () => {
+    expect(labelFromPath('test/Happiness/001.png')).toBe('happy');
+    expect(labelFromPath('fer2013/surprise/face.jpg')).toBe('surprised');
+    expect(labelFromPath('happy/sad/002.png')).toBe('sad');
+  });
+
+  it('ignores the file name and unknown folders', () => {
+    expect(labelFromPath('angry.png')).toBeNull();
+    expect(labelFromPath('faces/misc/angry.png')).toBeNull();
+  });
+});
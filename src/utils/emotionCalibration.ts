@@ -0,0 +1,266 @@
+import { classifyImage, type EmotionScores } from '@/utils/emotionDetection';
+import type { EmotionLabel } from '@/utils/emotionBackends';
+import { EMOTION_KEYS } from '@/utils/emotionPalette';
+
+/**
+ * How a model's confidence was calibrated and how well it did on the labeled set
+ */
+export interface ModelCalibration {
+  /** Divides the model's logits; above 1 softens overconfident outputs */
+  temperature: number;
+  /** Share of validation images whose top emotion matched the label */
+  accuracy: number;
+  /**
+   * Expected calibration error before and after scaling (0-1, lower is better).
+   * The figure after scaling is cross-validated: each image is scored with a
+   * temperature fitted without it.
+   */
+  eceBefore: number;
+  ece: number;
+  /** Mean negative log-likelihood before and after scaling, cross-validated like ece */
+  nllBefore: number;
+  nll: number;
+  /** Number of labeled images the figures were measured on */
+  samples: number;
+  /** ISO 8601 timestamp of when the calibration was run */
+  calibratedAt: string;
+}
+
+/**
+ * The calibration a recording's emotion samples were scaled with
+ */
+export interface AppliedCalibration {
+  backend: string;
+  temperature: number;
+  accuracy: number;
+  samples: number;
+}
+
+/**
+ * A model's output for one labeled validation image
+ */
+export interface LabeledPrediction {
+  scores: EmotionScores;
+  label: EmotionLabel;
+}
+
+// Folder names used by common datasets such as FER2013, mapped to our labels
+const LABEL_ALIASES: Record<string, EmotionLabel> = {
+  happy: 'happy',
+  happiness: 'happy',
+  neutral: 'neutral',
+  surprise: 'surprised',
+  surprised: 'surprised',
+  sad: 'sad',
+  sadness: 'sad',
+  angry: 'angry',
+  anger: 'angry',
+  disgust: 'disgust',
+  disgusted: 'disgust',
+  fear: 'fear',
+  fearful: 'fear',
+};
+
+// Keeps log() finite for labels a model never predicts
+const MIN_PROBABILITY = 1e-8;
+const ECE_BINS = 10;
+// Search range for the temperature, on a log scale
+const MIN_LOG_TEMPERATURE = Math.log(0.05);
+const MAX_LOG_TEMPERATURE = Math.log(20);
+// Folds used to measure the fitted temperature on images it was not fitted to
+const CV_FOLDS = 5;
+
+/**
+ * Rescales probabilities as if the model's logits had been divided by a
+ * temperature. log(p) equals the logits up to a constant, which softmax
+ * ignores, so this needs only the probabilities the backends return.
+ */
+export const applyTemperature = (scores: EmotionScores, temperature: number): EmotionScores => {
+  const scaled = EMOTION_KEYS.map(key => Math.log(Math.max(MIN_PROBABILITY, scores[key])) / temperature);
+  const max = Math.max(...scaled);
+  const exponentials = scaled.map(value => Math.exp(value - max));
+  const total = exponentials.reduce((sum, value) => sum + value, 0);
+
+  const calibrated = {} as EmotionScores;
+  EMOTION_KEYS.forEach((key, index) => {
+    calibrated[key] = exponentials[index] / total;
+  });
+  return calibrated;
+};
+
+const topEmotion = (scores: EmotionScores): EmotionLabel =>
+  EMOTION_KEYS.reduce((best, key) => (scores[key] > scores[best] ? key : best), EMOTION_KEYS[0]);
+
+/**
+ * Measures accuracy, calibration error and log-likelihood at a temperature
+ */
+export const evaluatePredictions = (predictions: LabeledPrediction[], temperature = 1) => {
+  const bins = Array.from({ length: ECE_BINS }, () => ({ count: 0, correct: 0, confidence: 0 }));
+  let correct = 0;
+  let nll = 0;
+
+  predictions.forEach(({ scores, label }) => {
+    const calibrated = applyTemperature(scores, temperature);
+    const predicted = topEmotion(calibrated);
+    const confidence = calibrated[predicted];
+    const hit = predicted === label;
+
+    if (hit) correct++;
+    nll -= Math.log(Math.max(MIN_PROBABILITY, calibrated[label]));
+
+    const bin = bins[Math.min(ECE_BINS - 1, Math.floor(confidence * ECE_BINS))];
+    bin.count++;
+    bin.confidence += confidence;
+    if (hit) bin.correct++;
+  });
+
+  const total = predictions.length || 1;
+  const ece = bins.reduce(
+    (sum, bin) => (bin.count ? sum + Math.abs(bin.correct - bin.confidence) / total : sum),
+    0
+  );
+
+  return { accuracy: correct / total, ece, nll: nll / total };
+};
+
+/**
+ * Finds the temperature that minimises negative log-likelihood, by golden
+ * section search over log(T), where the objective has a single minimum.
+ */
+export const fitTemperature = (predictions: LabeledPrediction[]): number => {
+  const objective = (logTemperature: number) => evaluatePredictions(predictions, Math.exp(logTemperature)).nll;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+
+  let low = MIN_LOG_TEMPERATURE;
+  let high = MAX_LOG_TEMPERATURE;
+  let a = high - ratio * (high - low);
+  let b = low + ratio * (high - low);
+  let fa = objective(a);
+  let fb = objective(b);
+
+  for (let i = 0; i < 40; i++) {
+    if (fa < fb) {
+      high = b;
+      b = a;
+      fb = fa;
+      a = high - ratio * (high - low);
+      fa = objective(a);
+    } else {
+      low = a;
+      a = b;
+      fa = fb;
+      b = low + ratio * (high - low);
+      fb = objective(b);
+    }
+  }
+
+  return Math.exp((low + high) / 2);
+};
+
+/**
+ * Scales each prediction with a temperature fitted to the other folds, so
+ * evaluating the result measures how the temperature does on unseen images.
+ * Folds are interleaved, which spreads each label across them when the
+ * images are listed folder by folder.
+ */
+export const crossValidatedPredictions = (
+  predictions: LabeledPrediction[],
+  folds = CV_FOLDS
+): LabeledPrediction[] => {
+  const count = Math.min(folds, predictions.length);
+  const heldOut: LabeledPrediction[] = [];
+
+  for (let fold = 0; fold < count; fold++) {
+    const training = predictions.filter((_, index) => index % count !== fold);
+    const temperature = fitTemperature(training);
+    predictions.forEach((prediction, index) => {
+      if (index % count !== fold) return;
+      heldOut.push({ ...prediction, scores: applyTemperature(prediction.scores, temperature) });
+    });
+  }
+
+  return heldOut;
+};
+
+/**
+ * Fits a temperature to labeled predictions and reports the measured figures.
+ * The temperature is fitted to every image; the figures after scaling are
+ * cross-validated so they are not flattered by fitting and scoring the same images.
+ */
+export const calibrate = (predictions: LabeledPrediction[]): ModelCalibration => {
+  if (predictions.length < 2) {
+    throw new Error('At least two labeled images are needed to calibrate');
+  }
+
+  const temperature = fitTemperature(predictions);
+  const before = evaluatePredictions(predictions, 1);
+  const after = evaluatePredictions(crossValidatedPredictions(predictions), 1);
+
+  return {
+    temperature,
+    // Scaling never changes the top emotion, so accuracy is the same either way
+    accuracy: after.accuracy,
+    eceBefore: before.ece,
+    ece: after.ece,
+    nllBefore: before.nll,
+    nll: after.nll,
+    samples: predictions.length,
+    calibratedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Reads an image's label from the folder it sits in, e.g. "test/happy/001.png"
+ * @returns The label, or null if no folder in the path names an emotion
+ */
+export const labelFromPath = (path: string): EmotionLabel | null => {
+  const folders = path.toLowerCase().split('/').slice(0, -1).reverse();
+  for (const folder of folders) {
+    if (LABEL_ALIASES[folder]) return LABEL_ALIASES[folder];
+  }
+  return null;
+};
+
+interface CalibrationOptions {
+  /** Called after each image with the number processed so far */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// Size the classifiers are fed; validation images are already face crops
+const INPUT_SIZE = 224;
+
+/**
+ * Classifies a folder of labeled face images with the loaded model and fits
+ * its calibration. Images outside an emotion folder are skipped.
+ * @param files - Files picked from a directory, with their relative paths
+ */
+export const runCalibration = async (
+  files: File[],
+  { onProgress, signal }: CalibrationOptions = {}
+): Promise<ModelCalibration> => {
+  const labeled = files
+    .filter(file => file.type.startsWith('image/'))
+    .map(file => ({ file, label: labelFromPath(file.webkitRelativePath || file.name) }))
+    .filter((item): item is { file: File; label: EmotionLabel } => item.label !== null);
+
+  if (labeled.length === 0) {
+    throw new Error('No images found in folders named after an emotion');
+  }
+
+  const predictions: LabeledPrediction[] = [];
+  for (const [index, { file, label }] of labeled.entries()) {
+    if (signal?.aborted) throw new DOMException('Calibration cancelled', 'AbortError');
+
+    try {
+      const image = await createImageBitmap(file, { resizeWidth: INPUT_SIZE, resizeHeight: INPUT_SIZE });
+      const result = await classifyImage(image);
+      if (result) predictions.push({ scores: result.allEmotions, label });
+    } catch (error) {
+      console.warn(`Skipping ${file.webkitRelativePath || file.name}:`, error);
+    }
+    onProgress?.(index + 1, labeled.length);
+  }
+
+  return calibrate(predictions);
+};
@@ -1,107 +1,255 @@
-import { pipeline } from "@huggingface/transformers";
+import type { EmotionWorkerRequest, EmotionWorkerResponse } from '@/workers/emotionProtocol';
+import { captureFaceCrop, disposeFaceDetectionModel, loadFaceDetectionModel } from '@/utils/faceDetection';
+import { getSettings } from '@/utils/settings';
+import { applyTemperature, type AppliedCalibration } from '@/utils/emotionCalibration';
 
-// Standard emotion labels that our UI expects
-const EMOTION_LABELS = ['angry', 'disgust', 'fear', 'happy', 'sad', 'surprised', 'neutral'];
+export interface EmotionScores {
+  happy: number;
+  neutral: number;
+  surprised: number;
+  sad: number;
+  angry: number;
+  disgust: number;
+  fear: number;
+}
+
+export interface EmotionResult {
+  emotion: string;
+  confidence: number;
+  allEmotions: EmotionScores;
+  /** False when the face detector found nothing and a centre crop was classified */
+  faceDetected?: boolean;
+  /** Temperature the scores were scaled by, when the model has been calibrated */
+  temperature?: number;
+}
+
+interface PendingInference {
+  resolve: (result: EmotionResult | null) => void;
+  reject: (error: Error) => void;
+}
 
-// Store the pipeline instance
-let emotionClassifier: any = null;
+// The worker that owns the classifier, and the inferences awaiting a reply
+let worker: Worker | null = null;
+let workerReady = false;
+let loadedBackend: string | null = null;
+let nextInferenceId = 0;
+const pendingInferences = new Map<number, PendingInference>();
+
+// Loading can include downloading the model, so it is given much longer than disposing
+const LOAD_TIMEOUT_MS = 120_000;
+const DISPOSE_TIMEOUT_MS = 5_000;
+
+// Loads and disposals run one after another, so a load never talks to a worker being torn down
+let lifecycle: Promise<unknown> = Promise.resolve();
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = lifecycle.then(task);
+  lifecycle = run.catch(() => undefined);
+  return run;
+};
+
+const postToWorker = (message: EmotionWorkerRequest, transfer: Transferable[] = []) => {
+  worker?.postMessage(message, transfer);
+};
+
+const handleWorkerMessage = (event: MessageEvent<EmotionWorkerResponse>) => {
+  const message = event.data;
+  if (message.type !== 'result' && message.type !== 'error') return;
+
+  const pending = pendingInferences.get(message.id);
+  if (!pending) return;
+  pendingInferences.delete(message.id);
+
+  if (message.type === 'result') {
+    pending.resolve(message.result);
+  } else {
+    pending.reject(new Error(message.error));
+  }
+};
 
 /**
- * Loads the emotion detection model from Hugging Face
+ * Answers every inference still waiting with null, as when the worker goes away
  */
-export const loadEmotionDetectionModel = async (): Promise<boolean> => {
+const abandonInferences = () => {
+  pendingInferences.forEach(pending => pending.resolve(null));
+  pendingInferences.clear();
+};
+
+/**
+ * Stops a worker for good; anything it was still working on is abandoned
+ */
+const terminateWorker = (target: Worker) => {
+  target.terminate();
+  if (worker === target) {
+    worker = null;
+    workerReady = false;
+    loadedBackend = null;
+  }
+  abandonInferences();
+};
+
+// A worker that fails to load its module, or crashes, cannot be recovered
+const handleWorkerError = (event: Event) => {
+  console.error('Emotion worker failed:', event);
+  if (event.currentTarget instanceof Worker) {
+    terminateWorker(event.currentTarget);
+  }
+};
+
+/**
+ * Waits for the next message of a given type from a worker
+ * @throws If the worker errors or does not answer within the timeout
+ */
+const waitForWorker = <T extends EmotionWorkerResponse['type']>(target: Worker, type: T, timeout: number) =>
+  new Promise<Extract<EmotionWorkerResponse, { type: T }>>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      target.removeEventListener('message', onMessage);
+      target.removeEventListener('error', onError);
+      target.removeEventListener('messageerror', onError);
+    };
+    const onMessage = (event: MessageEvent<EmotionWorkerResponse>) => {
+      if (event.data.type !== type) return;
+      cleanup();
+      resolve(event.data as Extract<EmotionWorkerResponse, { type: T }>);
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Emotion worker failed'));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Emotion worker did not answer "${type}" in time`));
+    }, timeout);
+
+    target.addEventListener('message', onMessage);
+    target.addEventListener('error', onError);
+    target.addEventListener('messageerror', onError);
+  });
+
+/**
+ * Starts the emotion worker and loads a registered backend inside it, along
+ * with the face detector used to crop frames. Calling it again swaps the model.
+ * @param backend - Id of the backend, defaulting to the one chosen in settings
+ */
+export const loadEmotionDetectionModel = (
+  backend: string = getSettings().emotionBackend
+): Promise<boolean> => enqueue(async () => {
   try {
-    // Load a model that's supported in the browser environment
-    emotionClassifier = await pipeline(
-      "image-classification",
-      "Xenova/emotion-recognition-75", // This is a compatible model for browser environment
-      { revision: "main" } // Using supported options
-    );
-    
+    // Without a face detector frames fall back to a centre crop, so this is not fatal
+    const faceDetectorLoaded = loadFaceDetectionModel();
+
+    if (!worker) {
+      worker = new Worker(new URL('../workers/emotion.worker.ts', import.meta.url), { type: 'module' });
+      worker.addEventListener('message', handleWorkerMessage);
+      worker.addEventListener('error', handleWorkerError);
+    }
+    const target = worker;
+
+    workerReady = false;
+    loadedBackend = null;
+    const loaded = waitForWorker(target, 'loaded', LOAD_TIMEOUT_MS);
+    postToWorker({ type: 'load', backend });
+    // A worker that timed out or crashed may be stuck, so the next load starts a fresh one
+    const response = await loaded.catch(error => {
+      terminateWorker(target);
+      throw error;
+    });
+    await faceDetectorLoaded;
+
+    if (!response.ok) {
+      throw new Error(response.error);
+    }
+
+    workerReady = true;
+    loadedBackend = backend;
     console.log('Emotion detection model loaded successfully');
     return true;
   } catch (error) {
     console.error('Failed to load emotion detection model:', error);
     return false;
   }
-};
+});
 
 /**
- * Creates an image blob from video frame
- * @param videoElement - The video element to capture from
- * @returns A blob URL that can be used with the model
+ * Releases the models and stops the worker
  */
-const captureVideoFrame = (videoElement: HTMLVideoElement): string => {
-  // Create a canvas element to capture the current frame
-  const canvas = document.createElement('canvas');
-  const context = canvas.getContext('2d');
-  if (!context) throw new Error('Could not get canvas context');
-
-  // Set canvas size to match video dimensions
-  canvas.width = videoElement.videoWidth;
-  canvas.height = videoElement.videoHeight;
-
-  // Calculate face region (center crop of the video)
-  const faceSize = Math.min(canvas.width, canvas.height) * 0.7;
-  const startX = (canvas.width - faceSize) / 2;
-  const startY = (canvas.height - faceSize) / 3; // Move up slightly to better center on the face
-
-  // Draw the current video frame onto the canvas
-  context.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
-  
-  // Create a blob from the canvas
-  return canvas.toDataURL('image/jpeg');
-};
+export const disposeEmotionDetectionModel = (): Promise<void> => enqueue(async () => {
+  disposeFaceDetectionModel();
+  const target = worker;
+  if (!target) return;
+
+  // Detach the worker first, so nothing new is sent to it while it shuts down
+  worker = null;
+  workerReady = false;
+  loadedBackend = null;
+  abandonInferences();
+
+  try {
+    const disposed = waitForWorker(target, 'disposed', DISPOSE_TIMEOUT_MS);
+    target.postMessage({ type: 'dispose' } satisfies EmotionWorkerRequest);
+    await disposed;
+  } catch (error) {
+    console.warn('Emotion worker did not dispose cleanly:', error);
+  } finally {
+    target.terminate();
+  }
+});
 
 /**
- * Maps the model's output to our UI's expected format
+ * Rescales a result with the loaded model's calibration, if it has one
  */
-const mapEmotionsToUIFormat = (predictions: any[]): {
-  happy: number;
-  neutral: number;
-  surprised: number;
-  sad: number;
-  angry: number;
-  disgust: number;
-  fear: number;
-} => {
-  // Initialize with zeros
-  const result = {
-    happy: 0,
-    neutral: 0,
-    surprised: 0,
-    sad: 0,
-    angry: 0,
-    disgust: 0,
-    fear: 0
+const calibrateResult = (result: EmotionResult): EmotionResult => {
+  const calibration = loadedBackend ? getSettings().calibrations[loadedBackend] : undefined;
+  if (!calibration) return result;
+
+  const allEmotions = applyTemperature(result.allEmotions, calibration.temperature);
+  const emotion = (Object.keys(allEmotions) as (keyof EmotionScores)[])
+    .reduce((best, key) => (allEmotions[key] > allEmotions[best] ? key : best));
+  return {
+    ...result,
+    emotion,
+    confidence: allEmotions[emotion],
+    allEmotions,
+    temperature: calibration.temperature
   };
-  
-  // Map the predictions to our standard format
-  predictions.forEach(prediction => {
-    // Convert model's emotion label to lowercase and normalize
-    const emotion = prediction.label.toLowerCase();
-    
-    // Handle different emotion formats
-    if (emotion.includes('happy')) {
-      result.happy = prediction.score;
-    } else if (emotion.includes('neutral')) {
-      result.neutral = prediction.score;
-    } else if (emotion.includes('surprise')) {
-      result.surprised = prediction.score;
-    } else if (emotion.includes('sad')) {
-      result.sad = prediction.score;
-    } else if (emotion.includes('angry') || emotion.includes('anger')) {
-      result.angry = prediction.score;
-    } else if (emotion.includes('disgust')) {
-      result.disgust = prediction.score;
-    } else if (emotion.includes('fear')) {
-      result.fear = prediction.score;
-    }
+};
+
+/**
+ * Sends a frame to the worker and waits for its scores
+ */
+const classifyFrame = (frame: ImageBitmap): Promise<EmotionResult | null> => {
+  const id = nextInferenceId++;
+  const result = new Promise<EmotionResult | null>((resolve, reject) => {
+    pendingInferences.set(id, { resolve, reject });
   });
-  
+  postToWorker({ type: 'infer', id, frame }, [frame]);
   return result;
 };
 
+/**
+ * Classifies an image that is already a face crop, such as a validation
+ * image. Scores are returned uncalibrated.
+ * @param image - The image; it is transferred to the worker and closed
+ */
+export const classifyImage = async (image: ImageBitmap): Promise<EmotionResult | null> => {
+  if (!worker || !workerReady) {
+    throw new Error('Emotion detection model not loaded');
+  }
+  return classifyFrame(image);
+};
+
+/**
+ * The calibration detectEmotion scales the loaded model's scores with
+ * @returns The calibration, or null when the scores are raw model output
+ */
+export const getAppliedCalibration = (): AppliedCalibration | null => {
+  const calibration = loadedBackend ? getSettings().calibrations[loadedBackend] : undefined;
+  if (!loadedBackend || !calibration) return null;
+
+  const { temperature, accuracy, samples } = calibration;
+  return { backend: loadedBackend, temperature, accuracy, samples };
+};
+
 /**
  * Detects emotion from a video element
  * @param videoElement - The video element containing the face
@@ -109,48 +257,22 @@ const mapEmotionsToUIFormat = (predictions: any[]): {
  */
 export const detectEmotion = async (
   videoElement: HTMLVideoElement
-): Promise<{ 
-  emotion: string; 
-  confidence: number; 
-  allEmotions: {
-    happy: number;
-    neutral: number;
-    surprised: number;
-    sad: number;
-    angry: number;
-    disgust: number;
-    fear: number;
-  };
-} | null> => {
-  if (!emotionClassifier) {
+): Promise<EmotionResult | null> => {
+  if (!worker || !workerReady) {
     console.warn('Emotion detection model not loaded');
     return null;
   }
 
+  // Nothing to classify until the video has decoded its first frame
+  if (!videoElement.videoWidth || !videoElement.videoHeight) {
+    return null;
+  }
+
   try {
-    // Capture frame from video
-    const imageData = captureVideoFrame(videoElement);
-    
-    // Run inference with the Hugging Face model
-    const predictions = await emotionClassifier(imageData);
-    
-    // Map the predictions to our UI format
-    const formattedEmotions = mapEmotionsToUIFormat(predictions);
-    
-    // Find the emotion with highest confidence
-    let topEmotion = { emotion: 'neutral', score: 0 };
-    Object.entries(formattedEmotions).forEach(([emotion, score]) => {
-      if (score > topEmotion.score) {
-        topEmotion = { emotion, score };
-      }
-    });
-    
-    // Return the results
-    return {
-      emotion: topEmotion.emotion,
-      confidence: topEmotion.score,
-      allEmotions: formattedEmotions
-    };
+    // Only the aligned face is sent, so the classifier never sees the room
+    const { frame, faceDetected } = captureFaceCrop(videoElement);
+    const emotions = await classifyFrame(frame);
+    return emotions && { ...calibrateResult(emotions), faceDetected };
   } catch (error) {
     console.error('Error during emotion detection:', error);
     return null;
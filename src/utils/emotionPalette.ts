@@ -0,0 +1,31 @@
+import type { EmotionLabel } from '@/utils/emotionBackends';
+import type { EmotionScores } from '@/utils/emotionDetection';
+
+/**
+ * Display name and chart colour of each emotion, shared by the in-app charts
+ * and exported reports so they match
+ */
+export const EMOTION_PALETTE: Record<EmotionLabel, { label: string; color: string }> = {
+  happy: { label: 'Happy', color: '#FACC15' },
+  neutral: { label: 'Neutral', color: '#94A3B8' },
+  surprised: { label: 'Surprised', color: '#F97316' },
+  sad: { label: 'Sad', color: '#3B82F6' },
+  angry: { label: 'Angry', color: '#EF4444' },
+  disgust: { label: 'Disgust', color: '#84CC16' },
+  fear: { label: 'Fear', color: '#8B5CF6' },
+};
+
+export const EMOTION_KEYS = Object.keys(EMOTION_PALETTE) as EmotionLabel[];
+
+/**
+ * A score of zero for every emotion, to accumulate into or show when nothing was detected
+ */
+export const emptyEmotionScores = (): EmotionScores => ({
+  happy: 0,
+  neutral: 0,
+  surprised: 0,
+  sad: 0,
+  angry: 0,
+  disgust: 0,
+  fear: 0,
+});
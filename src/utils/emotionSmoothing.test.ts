@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createEmotionSmoother, DEFAULT_SMOOTHING, type SmoothingSettings } from '@/utils/emotionSmoothing';
+import type { EmotionScores } from '@/utils/emotionDetection';
+
+// A score of zero for every emotion
+const NO_SCORES: EmotionScores = { happy: 0, neutral: 0, surprised: 0, sad: 0, angry: 0, disgust: 0, fear: 0 };
+
+const scores = (values: Partial<EmotionScores>): EmotionScores => ({ ...NO_SCORES, ...values });
+
+const settings = (changes: Partial<SmoothingSettings>): SmoothingSettings => ({
+  ...DEFAULT_SMOOTHING,
+  hysteresis: false,
+  ...changes,
+});
+
+describe('createEmotionSmoother', () => {
+  it('passes scores through unchanged without smoothing', () => {
+    const smoother = createEmotionSmoother(settings({ method: 'none' }));
+    const frame = scores({ happy: 0.7, sad: 0.3 });
+
+    expect(smoother.push(frame)).toEqual({ emotion: 'happy', confidence: 0.7, scores: frame });
+  });
+
+  it('averages frames exponentially', () => {
+    const smoother = createEmotionSmoother(settings({ method: 'ema', emaAlpha: 0.5 }));
+    smoother.push(scores({ happy: 1 }));
+    const result = smoother.push(scores({ sad: 1 }));
+
+    expect(result.scores.happy).toBeCloseTo(0.5);
+    expect(result.scores.sad).toBeCloseTo(0.5);
+  });
+
+  it('ignores a single outlier with a median window, and renormalises', () => {
+    const smoother = createEmotionSmoother(settings({ method: 'median', medianWindow: 3 }));
+    smoother.push(scores({ happy: 0.8, neutral: 0.2 }));
+    smoother.push(scores({ angry: 1 }));
+    const result = smoother.push(scores({ happy: 0.8, neutral: 0.2 }));
+
+    expect(result.emotion).toBe('happy');
+    expect(result.scores.angry).toBe(0);
+    const total = Object.values(result.scores).reduce((sum, value) => sum + value, 0);
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('starts over after reset', () => {
+    const smoother = createEmotionSmoother(settings({ method: 'ema', emaAlpha: 0.5 }));
+    smoother.push(scores({ happy: 1 }));
+    smoother.reset();
+
+    expect(smoother.push(scores({ sad: 1 })).scores.sad).toBe(1);
+  });
+
+  describe('hysteresis', () => {
+    const hysteresis = settings({ method: 'none', hysteresis: true, hysteresisMargin: 0.1, hysteresisFrames: 3 });
+
+    it('switches only after the challenger leads for the required frames', () => {
+      const smoother = createEmotionSmoother(hysteresis);
+      expect(smoother.push(scores({ happy: 0.6, sad: 0.4 })).emotion).toBe('happy');
+
+      const sadFrame = scores({ happy: 0.3, sad: 0.7 });
+      expect(smoother.push(sadFrame).emotion).toBe('happy');
+      expect(smoother.push(sadFrame).emotion).toBe('happy');
+      expect(smoother.push(sadFrame).emotion).toBe('sad');
+    });
+
+    it('keeps the current label while the lead is under the margin', () => {
+      const smoother = createEmotionSmoother(hysteresis);
+      smoother.push(scores({ happy: 0.6, sad: 0.4 }));
+
+      for (let i = 0; i < 5; i++) {
+        expect(smoother.push(scores({ happy: 0.46, sad: 0.54 })).emotion).toBe('happy');
+      }
+    });
+
+    it('restarts the count when the challenger loses its lead', () => {
+      const smoother = createEmotionSmoother(hysteresis);
+      smoother.push(scores({ happy: 0.6, sad: 0.4 }));
+
+      const sadFrame = scores({ happy: 0.3, sad: 0.7 });
+      smoother.push(sadFrame);
+      smoother.push(sadFrame);
+      smoother.push(scores({ happy: 0.6, sad: 0.4 }));
+      expect(smoother.push(sadFrame).emotion).toBe('happy');
+      expect(smoother.push(sadFrame).emotion).toBe('happy');
+      expect(smoother.push(sadFrame).emotion).toBe('sad');
+    });
+
+    it('reports the confidence of the label it keeps', () => {
+      const smoother = createEmotionSmoother(hysteresis);
+      smoother.push(scores({ happy: 0.6, sad: 0.4 }));
+
+      expect(smoother.push(scores({ happy: 0.3, sad: 0.7 })).confidence).toBe(0.3);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type { EmotionScores } from '@/utils/emotionDetection';
+import { EMOTION_KEYS } from '@/utils/emotionPalette';
+
+export type SmoothingMethod = 'none' | 'ema' | 'median';
+
+export interface SmoothingSettings {
+  method: SmoothingMethod;
+  /** Weight of the newest frame in the exponential moving average (0-1] */
+  emaAlpha: number;
+  /** Number of frames in the sliding median window */
+  medianWindow: number;
+  /** Require a new top emotion to lead for a while before switching to it */
+  hysteresis: boolean;
+  /** How far (0-1) the challenger must be ahead of the current emotion */
+  hysteresisMargin: number;
+  /** How many consecutive frames the challenger must stay ahead */
+  hysteresisFrames: number;
+}
+
+export const DEFAULT_SMOOTHING: SmoothingSettings = {
+  method: 'ema',
+  emaAlpha: 0.3,
+  medianWindow: 5,
+  hysteresis: true,
+  hysteresisMargin: 0.1,
+  hysteresisFrames: 3,
+};
+
+export interface SmoothedEmotion {
+  emotion: string;
+  confidence: number;
+  scores: EmotionScores;
+}
+
+export interface EmotionSmoother {
+  push: (scores: EmotionScores) => SmoothedEmotion;
+  reset: () => void;
+}
+
+const mapScores = (fn: (key: keyof EmotionScores) => number): EmotionScores => {
+  const scores = {} as EmotionScores;
+  EMOTION_KEYS.forEach(key => {
+    scores[key] = fn(key);
+  });
+  return scores;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const topEmotion = (scores: EmotionScores): keyof EmotionScores =>
+  EMOTION_KEYS.reduce((best, key) => (scores[key] > scores[best] ? key : best), 'neutral' as keyof EmotionScores);
+
+/**
+ * Creates a stateful filter for the per-frame emotion stream. Scores are
+ * smoothed first, then hysteresis decides whether the reported label changes.
+ */
+export const createEmotionSmoother = (settings: SmoothingSettings): EmotionSmoother => {
+  let average: EmotionScores | null = null;
+  let window: EmotionScores[] = [];
+  let currentLabel: keyof EmotionScores | null = null;
+  let challenger: keyof EmotionScores | null = null;
+  let challengerFrames = 0;
+
+  const filterScores = (scores: EmotionScores): EmotionScores => {
+    switch (settings.method) {
+      case 'ema': {
+        const alpha = Math.min(1, Math.max(0.01, settings.emaAlpha));
+        const previous = average;
+        average = previous
+          ? mapScores(key => previous[key] + alpha * (scores[key] - previous[key]))
+          : { ...scores };
+        return average;
+      }
+      case 'median': {
+        window = [...window, scores].slice(-Math.max(1, Math.round(settings.medianWindow)));
+        const medians = mapScores(key => median(window.map(frame => frame[key])));
+        // Per-emotion medians no longer sum to one, so renormalize for display
+        const total = EMOTION_KEYS.reduce((sum, key) => sum + medians[key], 0);
+        return total > 0 ? mapScores(key => medians[key] / total) : medians;
+      }
+      default:
+        return scores;
+    }
+  };
+
+  const chooseLabel = (scores: EmotionScores): keyof EmotionScores => {
+    const leader = topEmotion(scores);
+    if (!settings.hysteresis || currentLabel === null || leader === currentLabel) {
+      currentLabel = leader;
+      challenger = null;
+      challengerFrames = 0;
+      return currentLabel;
+    }
+
+    if (scores[leader] - scores[currentLabel] < settings.hysteresisMargin) {
+      challenger = null;
+      challengerFrames = 0;
+      return currentLabel;
+    }
+
+    challengerFrames = challenger === leader ? challengerFrames + 1 : 1;
+    challenger = leader;
+    if (challengerFrames >= settings.hysteresisFrames) {
+      currentLabel = leader;
+      challenger = null;
+      challengerFrames = 0;
+    }
+    return currentLabel;
+  };
+
+  return {
+    push: (scores) => {
+      const smoothed = filterScores(scores);
+      const emotion = chooseLabel(smoothed);
+      return { emotion, confidence: smoothed[emotion], scores: smoothed };
+    },
+    reset: () => {
+      average = null;
+      window = [];
+      currentLabel = null;
+      challenger = null;
+      challengerFrames = 0;
+    },
+  };
+};
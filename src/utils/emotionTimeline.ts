@@ -0,0 +1,52 @@
+import type { EmotionScores } from '@/utils/emotionDetection';
+import type { SmoothedEmotion } from '@/utils/emotionSmoothing';
+
+/**
+ * A single emotion detection result captured during a recording
+ */
+export interface EmotionSample {
+  /** Milliseconds since the MediaRecorder started */
+  time: number;
+  emotion: string;
+  confidence: number;
+  scores: EmotionScores;
+  /** False when no face was found and the frame's centre was classified instead */
+  faceDetected?: boolean;
+  /** The same frame after temporal smoothing and hysteresis */
+  smoothed?: SmoothedEmotion;
+}
+
+export type EmotionSeries = 'raw' | 'smoothed';
+
+/**
+ * Presents a timeline as either its raw or smoothed series. Samples recorded
+ * before smoothing existed fall back to their raw values.
+ */
+export const selectSeries = (samples: EmotionSample[], series: EmotionSeries): EmotionSample[] =>
+  series === 'raw'
+    ? samples
+    : samples.map(sample => (sample.smoothed ? { ...sample, ...sample.smoothed } : sample));
+
+/**
+ * Finds the most recent sample at or before a point in time
+ * @param samples - Timeline sorted by time
+ * @param time - Milliseconds since the recording started
+ * @returns The sample, or null if the time is before the first sample
+ */
+export const findSampleAt = <T extends { time: number }>(samples: T[], time: number): T | null => {
+  let low = 0;
+  let high = samples.length - 1;
+  let found: T | null = null;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (samples[mid].time <= time) {
+      found = samples[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+};
@@ -0,0 +1,144 @@
+import { FaceDetector } from '@mediapipe/tasks-vision';
+import { createVisionTask, loadModelAsset, MEDIAPIPE_MODELS, visionWasmFileset } from '@/utils/mediapipe';
+
+// Size of the square face crop handed to the emotion model
+const CROP_SIZE = 224;
+// Expand the detected box so the whole face, including the chin and brows, is kept
+const CROP_MARGIN = 1.25;
+
+export interface FaceRegion {
+  /** Centre of the face in video pixels */
+  centerX: number;
+  centerY: number;
+  /** Side of the square crop in video pixels */
+  size: number;
+  /** Head roll in radians, measured from the line between the eyes */
+  angle: number;
+  score: number;
+}
+
+export interface FaceCrop {
+  frame: ImageBitmap;
+  /** Whether the crop came from a detected face or the centre-crop fallback */
+  faceDetected: boolean;
+}
+
+let faceDetector: FaceDetector | null = null;
+let cropCanvas: OffscreenCanvas | null = null;
+let lastTimestamp = 0;
+
+/**
+ * Loads the BlazeFace short-range detector
+ */
+export const loadFaceDetectionModel = async (): Promise<boolean> => {
+  if (faceDetector) return true;
+
+  try {
+    const model = await loadModelAsset(MEDIAPIPE_MODELS.faceDetector);
+    faceDetector = await createVisionTask(delegate =>
+      FaceDetector.createFromOptions(visionWasmFileset, {
+        baseOptions: { modelAssetBuffer: model, delegate },
+        runningMode: 'VIDEO',
+        minDetectionConfidence: 0.5
+      })
+    );
+    console.log('Face detection model loaded successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to load face detection model:', error);
+    return false;
+  }
+};
+
+/**
+ * Releases the face detector
+ */
+export const disposeFaceDetectionModel = () => {
+  faceDetector?.close();
+  faceDetector = null;
+  cropCanvas = null;
+};
+
+/**
+ * Finds the most confident face in the current video frame
+ * @returns The face region, or null when no face is found or the model is not loaded
+ */
+export const detectFace = (videoElement: HTMLVideoElement): FaceRegion | null => {
+  if (!faceDetector) return null;
+
+  // detectForVideo requires strictly increasing timestamps
+  const timestamp = Math.max(performance.now(), lastTimestamp + 1);
+  lastTimestamp = timestamp;
+
+  const { detections } = faceDetector.detectForVideo(videoElement, timestamp);
+  const best = detections
+    .filter(detection => detection.boundingBox)
+    .sort((a, b) => (b.categories[0]?.score ?? 0) - (a.categories[0]?.score ?? 0))[0];
+  if (!best) return null;
+
+  const box = best.boundingBox!;
+  const width = videoElement.videoWidth;
+  const height = videoElement.videoHeight;
+
+  // Keypoints 0 and 1 are the eyes; level them to undo head roll
+  const [rightEye, leftEye] = best.keypoints;
+  const angle = rightEye && leftEye
+    ? Math.atan2((leftEye.y - rightEye.y) * height, (leftEye.x - rightEye.x) * width)
+    : 0;
+
+  return {
+    centerX: box.originX + box.width / 2,
+    centerY: box.originY + box.height / 2,
+    size: Math.max(box.width, box.height) * CROP_MARGIN,
+    angle,
+    score: best.categories[0]?.score ?? 0
+  };
+};
+
+/**
+ * The region used when no face is detected: a square in the middle of the
+ * frame, nudged up to where a seated person's face usually is
+ */
+const centreRegion = (videoElement: HTMLVideoElement): FaceRegion => {
+  const width = videoElement.videoWidth;
+  const height = videoElement.videoHeight;
+  const faceSize = Math.min(width, height) * 0.7;
+
+  return {
+    centerX: width / 2,
+    centerY: (height - faceSize) / 3 + faceSize / 2,
+    size: faceSize,
+    angle: 0,
+    score: 0
+  };
+};
+
+/**
+ * Crops and aligns the face in the current video frame
+ * @returns A square bitmap ready to be transferred to the emotion worker
+ */
+export const captureFaceCrop = (videoElement: HTMLVideoElement): FaceCrop => {
+  const face = detectFace(videoElement);
+  const region = face ?? centreRegion(videoElement);
+
+  if (!cropCanvas) {
+    cropCanvas = new OffscreenCanvas(CROP_SIZE, CROP_SIZE);
+  }
+  const context = cropCanvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context');
+
+  // Rotate around the face centre so the eyes end up level
+  const scale = CROP_SIZE / region.size;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, CROP_SIZE, CROP_SIZE);
+  context.translate(CROP_SIZE / 2, CROP_SIZE / 2);
+  context.rotate(-region.angle);
+  context.scale(scale, scale);
+  context.drawImage(videoElement, -region.centerX, -region.centerY);
+
+  return {
+    frame: cropCanvas.transferToImageBitmap(),
+    faceDetected: face !== null
+  };
+};
@@ -0,0 +1,31 @@
+/**
+ * Formats a duration in seconds as m:ss, or h:mm:ss when over an hour
+ */
+export const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Formats a fraction (0-1) as a percentage, e.g. 0.425 as "43%"
+ * @param digits - Decimal places to keep
+ */
+export const formatPercent = (value: number, digits = 0) => `${(value * 100).toFixed(digits)}%`;
+
+/**
+ * Formats an ISO date string as e.g. "Dec 15, 2023"
+ */
+export const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', { 
+    year: 'numeric', 
+    month: 'short', 
+    day: 'numeric' 
+  });
+};
@@ -0,0 +1,24 @@
+export interface FrameClock {
+  /** Changes how often the clock ticks, in milliseconds */
+  setInterval: (interval: number) => void;
+  stop: () => void;
+}
+
+/**
+ * Calls onTick at a steady interval, including while the tab is hidden.
+ * Capture and metering loops use this instead of requestAnimationFrame,
+ * which browsers pause in background tabs, so recordings made while the
+ * user is in another tab or window keep moving.
+ * @param interval - Time between ticks, in milliseconds
+ */
+export const createFrameClock = (interval: number, onTick: (now: number) => void): FrameClock => {
+  const worker = new Worker(new URL('../workers/frameClock.worker.ts', import.meta.url), { type: 'module' });
+  // The worker's performance.now() has a different origin, so ticks are timed here
+  worker.addEventListener('message', () => onTick(performance.now()));
+  worker.postMessage(interval);
+
+  return {
+    setInterval: (next) => worker.postMessage(next),
+    stop: () => worker.terminate(),
+  };
+};
@@ -0,0 +1,303 @@
+import { HandLandmarker, type NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { createVisionTask, loadModelAsset, MEDIAPIPE_MODELS, visionWasmFileset } from '@/utils/mediapipe';
+import type { NormalizedBox } from '@/utils/attentionTracking';
+
+export type GestureType = 'handRaise' | 'thumbsUp' | 'wave' | 'pointing' | 'faceTouch';
+
+export const GESTURE_LABELS: Record<GestureType, string> = {
+  handRaise: 'Hand Raise',
+  thumbsUp: 'Thumbs Up',
+  wave: 'Wave',
+  pointing: 'Pointing',
+  faceTouch: 'Face Touch',
+};
+
+/**
+ * A gesture held for a stretch of a recording
+ */
+export interface GestureEvent {
+  gesture: GestureType;
+  /** When the gesture started, in milliseconds into the recorded video */
+  time: number;
+  /** How long it was held, in milliseconds */
+  duration: number;
+  /** Which hand made it, as reported by the model */
+  hand: string;
+  /** Average hand detection score while the gesture was held */
+  confidence: number;
+}
+
+/**
+ * One hand found in a frame
+ */
+export interface HandObservation {
+  hand: string;
+  score: number;
+  landmarks: NormalizedLandmark[];
+}
+
+export interface GestureTracker {
+  /**
+   * Classifies the hands in a frame
+   * @param time - Milliseconds into the recorded video
+   * @param faceBox - Where the face is, needed to recognise face touching
+   * @returns The gestures currently held, and any that just finished
+   */
+  push: (
+    hands: HandObservation[],
+    time: number,
+    aspectRatio: number,
+    faceBox?: NormalizedBox
+  ) => { active: GestureType[]; ended: GestureEvent[] };
+  /** Ends every gesture still being held, e.g. when recording stops */
+  flush: () => GestureEvent[];
+}
+
+// A gesture must be seen in this many frames before it counts
+const MIN_FRAMES = 2;
+// With frames this far apart, in milliseconds, a brief gesture is only seen once
+const SPARSE_FRAME_INTERVAL = 500;
+// A gesture ends once it has not been seen for this long, in milliseconds
+const END_GAP = 500;
+// How far back wrist movement is considered when looking for a wave, in milliseconds
+const WAVE_WINDOW = 1500;
+// Side-to-side swings needed for a wave, and their size relative to the palm
+const WAVE_REVERSALS = 2;
+const WAVE_SWING = 0.25;
+
+/**
+ * Slowest sampling, in frames per second, at which waves are looked for.
+ * A wave swings a few times a second, so sparser frames cannot follow it.
+ */
+export const MIN_WAVE_SAMPLE_RATE = 5;
+
+// Landmark indices of the MediaPipe hand model
+const WRIST = 0;
+const THUMB = { mcp: 2, ip: 3, tip: 4 };
+const FINGERS = [
+  { mcp: 5, pip: 6, tip: 8 },
+  { mcp: 9, pip: 10, tip: 12 },
+  { mcp: 13, pip: 14, tip: 16 },
+  { mcp: 17, pip: 18, tip: 20 },
+];
+const FINGERTIPS = [4, 8, 12, 16, 20];
+
+let handLandmarker: HandLandmarker | null = null;
+let lastTimestamp = 0;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface HeldGesture {
+  gesture: GestureType;
+  hand: string;
+  start: number;
+  lastSeen: number;
+  frames: number;
+  scoreSum: number;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Loads the MediaPipe hand landmarker
+ */
+export const loadGestureModel = async (): Promise<boolean> => {
+  if (handLandmarker) return true;
+
+  try {
+    const model = await loadModelAsset(MEDIAPIPE_MODELS.handLandmarker);
+    handLandmarker = await createVisionTask(delegate =>
+      HandLandmarker.createFromOptions(visionWasmFileset, {
+        baseOptions: { modelAssetBuffer: model, delegate },
+        runningMode: 'VIDEO',
+        numHands: 2
+      })
+    );
+    console.log('Hand landmark model loaded successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to load hand landmark model:', error);
+    return false;
+  }
+};
+
+/**
+ * Releases the hand landmarker
+ */
+export const disposeGestureModel = () => {
+  handLandmarker?.close();
+  handLandmarker = null;
+};
+
+/**
+ * Finds the hands in the current video frame
+ * @returns The hands, or null if the model is not loaded or the video has no frame yet
+ */
+export const detectHands = (videoElement: HTMLVideoElement): HandObservation[] | null => {
+  if (!handLandmarker || !videoElement.videoWidth) return null;
+
+  // detectForVideo requires strictly increasing timestamps
+  const timestamp = Math.max(performance.now(), lastTimestamp + 1);
+  lastTimestamp = timestamp;
+
+  const result = handLandmarker.detectForVideo(videoElement, timestamp);
+  return result.landmarks.map((landmarks, index) => ({
+    hand: result.handedness[index]?.[0]?.categoryName ?? 'Unknown',
+    score: result.handedness[index]?.[0]?.score ?? 0,
+    landmarks,
+  }));
+};
+
+/**
+ * Recognises the gestures a single hand pose can show on its own. Landmarks
+ * are rescaled by the aspect ratio so distances are comparable in both axes.
+ */
+const classifyPose = (landmarks: NormalizedLandmark[], aspectRatio: number, faceBox?: NormalizedBox) => {
+  const points = landmarks.map(landmark => ({ x: landmark.x * aspectRatio, y: landmark.y }));
+  const wrist = points[WRIST];
+  // Wrist to middle knuckle, used as the unit of hand size
+  const scale = distance(wrist, points[9]);
+  const palm = {
+    x: [0, 5, 9, 13, 17].reduce((sum, index) => sum + points[index].x, 0) / 5,
+    y: [0, 5, 9, 13, 17].reduce((sum, index) => sum + points[index].y, 0) / 5,
+  };
+
+  // A finger is straight when its tip is well beyond its middle joint, seen from the wrist
+  const extended = FINGERS.map(({ pip, tip }) => distance(wrist, points[tip]) > distance(wrist, points[pip]) * 1.15);
+  const extendedCount = extended.filter(Boolean).length;
+  const thumbExtended = distance(points[THUMB.tip], palm) > scale * 0.8;
+
+  const gestures = new Set<GestureType>();
+  const openPalm = extendedCount >= 4;
+  // Image y grows downwards, so "up" is a smaller y
+  const fingersUp = points[12].y < wrist.y - scale * 0.8;
+
+  if (
+    thumbExtended &&
+    extendedCount === 0 &&
+    points[THUMB.mcp].y - points[THUMB.tip].y > scale * 0.6 &&
+    points.every((point, index) => index === THUMB.tip || point.y > points[THUMB.tip].y)
+  ) {
+    gestures.add('thumbsUp');
+  }
+
+  if (extended[0] && !extended[1] && !extended[2] && !extended[3]) {
+    gestures.add('pointing');
+  }
+
+  // Raised means the wrist is above the chin, or in the top part of the frame without a face
+  const raised = faceBox ? wrist.y < faceBox.y + faceBox.height : wrist.y < 0.6;
+  if (openPalm && fingersUp && raised) {
+    gestures.add('handRaise');
+  }
+
+  if (faceBox) {
+    const margin = 0.1;
+    const left = (faceBox.x - faceBox.width * margin) * aspectRatio;
+    const right = (faceBox.x + faceBox.width * (1 + margin)) * aspectRatio;
+    const top = faceBox.y - faceBox.height * margin;
+    const bottom = faceBox.y + faceBox.height * (1 + margin);
+    const touching = FINGERTIPS.some(index => {
+      const { x, y } = points[index];
+      return x >= left && x <= right && y >= top && y <= bottom;
+    });
+    if (touching) gestures.add('faceTouch');
+  }
+
+  return { gestures, palm, scale, openPalm: openPalm && points[9].y < wrist.y };
+};
+
+/**
+ * Counts direction changes in side-to-side movement that are large enough to be a wave
+ */
+const countSwings = (history: { x: number }[], minSwing: number) => {
+  let reversals = 0;
+  let direction = 0;
+  let anchor = history[0]?.x ?? 0;
+
+  for (const { x } of history) {
+    const delta = x - anchor;
+    if (Math.abs(delta) < minSwing) continue;
+    const nextDirection = Math.sign(delta);
+    if (direction !== 0 && nextDirection !== direction) reversals++;
+    direction = nextDirection;
+    anchor = x;
+  }
+  return reversals;
+};
+
+/**
+ * Turns per-frame hand poses into gesture events. A gesture starts once it
+ * has been seen for a couple of frames and ends after a short absence, so
+ * one missed frame does not split it in two.
+ * @param frameInterval - Milliseconds between frames when they are sampled
+ * at a fixed rate, as in offline analysis. The absence that ends a gesture is
+ * stretched to cover it, sparse frames count a single sighting, and waves are
+ * skipped when frames are too sparse to follow them.
+ */
+export const createGestureTracker = (frameInterval = 0): GestureTracker => {
+  const endGap = Math.max(END_GAP, frameInterval * 1.5);
+  const minFrames = frameInterval >= SPARSE_FRAME_INTERVAL ? 1 : MIN_FRAMES;
+  const detectWaves = frameInterval <= 1000 / MIN_WAVE_SAMPLE_RATE;
+
+  const held = new Map<string, HeldGesture>();
+  const palmHistory = new Map<string, { time: number; x: number }[]>();
+
+  const toEvent = (entry: HeldGesture): GestureEvent => ({
+    gesture: entry.gesture,
+    time: entry.start,
+    duration: entry.lastSeen - entry.start,
+    hand: entry.hand,
+    confidence: entry.scoreSum / entry.frames,
+  });
+
+  return {
+    push: (hands, time, aspectRatio, faceBox) => {
+      hands.forEach(({ hand, score, landmarks }) => {
+        const { gestures, palm, scale, openPalm } = classifyPose(landmarks, aspectRatio, faceBox);
+
+        // Waving is an open hand swinging side to side, so it needs recent history
+        const history = [...(palmHistory.get(hand) ?? []), { time, x: palm.x }]
+          .filter(entry => time - entry.time <= WAVE_WINDOW);
+        palmHistory.set(hand, openPalm ? history : []);
+        if (detectWaves && openPalm && countSwings(history, scale * WAVE_SWING) >= WAVE_REVERSALS) {
+          gestures.add('wave');
+          gestures.delete('handRaise');
+        }
+
+        gestures.forEach(gesture => {
+          const key = `${hand}:${gesture}`;
+          const entry = held.get(key);
+          if (entry) {
+            entry.lastSeen = time;
+            entry.frames++;
+            entry.scoreSum += score;
+          } else {
+            held.set(key, { gesture, hand, start: time, lastSeen: time, frames: 1, scoreSum: score });
+          }
+        });
+      });
+
+      const ended: GestureEvent[] = [];
+      held.forEach((entry, key) => {
+        if (time - entry.lastSeen <= endGap) return;
+        held.delete(key);
+        if (entry.frames >= minFrames) ended.push(toEvent(entry));
+      });
+
+      const active = [...held.values()]
+        .filter(entry => entry.frames >= minFrames)
+        .map(entry => entry.gesture);
+      return { active: [...new Set(active)], ended };
+    },
+    flush: () => {
+      const ended = [...held.values()].filter(entry => entry.frames >= minFrames).map(toEvent);
+      held.clear();
+      palmHistory.clear();
+      return ended;
+    },
+  };
+};
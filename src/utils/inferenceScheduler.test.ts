@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInferenceScheduler } from '@/utils/inferenceScheduler';
+
+// An inference that finishes after the given number of (fake) milliseconds
+const delayed = <T>(value: T, ms: number) => () =>
+  new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+describe('createInferenceScheduler', () => {
+  beforeEach(() => {
+    // Latency is measured with performance.now(), so it is faked along with the timers
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+    // The scheduler uses window timers, which tests run without
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps one inference in flight and paces them by the measured latency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const starts: number[] = [];
+    const scheduler = createInferenceScheduler({
+      infer: async () => {
+        starts.push(performance.now());
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delayed(null, 200)();
+        inFlight--;
+        return 'happy';
+      },
+      onResult: () => {},
+      minInterval: 100,
+      maxInterval: 1000,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(2000);
+    scheduler.stop();
+
+    expect(maxInFlight).toBe(1);
+    // 200 ms of work with 25% headroom gives a 250 ms start-to-start interval
+    expect(scheduler.getStats().interval).toBeCloseTo(250);
+    expect(starts[2] - starts[1]).toBeCloseTo(250);
+  });
+
+  it('waits for an inference still running from before a stop', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const scheduler = createInferenceScheduler({
+      infer: async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delayed(null, 200)();
+        inFlight--;
+        return 'happy';
+      },
+      onResult: () => {},
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(50);
+    scheduler.stop();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.stop();
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('clamps the interval to the configured bounds', async () => {
+    const scheduler = createInferenceScheduler({
+      infer: delayed('happy', 10),
+      onResult: () => {},
+      minInterval: 100,
+      maxInterval: 1000,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(500);
+    scheduler.stop();
+
+    expect(scheduler.getStats().interval).toBe(100);
+  });
+
+  it('drops results whose frame is older than maxFrameAge', async () => {
+    const onResult = vi.fn();
+    const scheduler = createInferenceScheduler({
+      infer: delayed('happy', 300),
+      onResult,
+      maxFrameAge: 200,
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.stop();
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(scheduler.getStats().dropped).toBeGreaterThan(0);
+  });
+
+  it('ignores a result that arrives after stop', async () => {
+    const onResult = vi.fn();
+    const scheduler = createInferenceScheduler({ infer: delayed('happy', 50), onResult });
+
+    scheduler.start();
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('does not report null results', async () => {
+    const onResult = vi.fn();
+    const onStats = vi.fn();
+    const scheduler = createInferenceScheduler({ infer: delayed(null, 20), onResult, onStats });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(500);
+    scheduler.stop();
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(onStats).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+export interface InferenceStats {
+  /** Results delivered per second over the last few seconds */
+  fps: number;
+  /** Smoothed time from frame capture to result, in milliseconds */
+  latency: number;
+  /** Delay between the start of consecutive inferences, in milliseconds */
+  interval: number;
+  /** Results discarded because their frame was too old */
+  dropped: number;
+}
+
+export interface InferenceSchedulerOptions<T> {
+  /** Captures a frame and runs inference on it; null means nothing to report */
+  infer: () => Promise<T | null>;
+  /** Called with each fresh result and the time its frame was captured */
+  onResult: (result: T, capturedAt: number) => void;
+  onStats?: (stats: InferenceStats) => void;
+  /** Fastest allowed start-to-start interval, in milliseconds */
+  minInterval?: number;
+  /** Slowest allowed start-to-start interval, in milliseconds */
+  maxInterval?: number;
+  /** Results for frames older than this are dropped, in milliseconds */
+  maxFrameAge?: number;
+}
+
+export interface InferenceScheduler {
+  start: () => void;
+  stop: () => void;
+  getStats: () => InferenceStats;
+}
+
+// Weight of the newest latency measurement in the moving average
+const LATENCY_SMOOTHING = 0.2;
+// Leave the worker idle for a share of each interval so the page stays responsive
+const HEADROOM = 1.25;
+const FPS_WINDOW_MS = 3000;
+
+/**
+ * Creates a scheduler that keeps at most one inference in flight and adapts
+ * its rate to how long inferences actually take.
+ */
+export const createInferenceScheduler = <T>({
+  infer,
+  onResult,
+  onStats,
+  minInterval = 100,
+  maxInterval = 1000,
+  maxFrameAge = 1000,
+}: InferenceSchedulerOptions<T>): InferenceScheduler => {
+  let running = false;
+  // Bumped on every start/stop so results from a previous run are ignored
+  let generation = 0;
+  let timeout: number | null = null;
+  // The latest tick, kept across stop and start so a restart waits for its inference
+  let inFlight: Promise<void> = Promise.resolve();
+  let completions: number[] = [];
+
+  const stats: InferenceStats = { fps: 0, latency: 0, interval: minInterval, dropped: 0 };
+
+  const clamp = (value: number) => Math.min(maxInterval, Math.max(minInterval, value));
+
+  const recordCompletion = (now: number, latency: number) => {
+    stats.latency = stats.latency === 0
+      ? latency
+      : stats.latency + LATENCY_SMOOTHING * (latency - stats.latency);
+    stats.interval = clamp(stats.latency * HEADROOM);
+
+    completions.push(now);
+    completions = completions.filter(time => now - time <= FPS_WINDOW_MS);
+    const span = completions.length > 1 ? now - completions[0] : FPS_WINDOW_MS;
+    stats.fps = ((completions.length - 1) * 1000) / Math.max(span, 1);
+  };
+
+  const tick = async (runGeneration: number) => {
+    const capturedAt = performance.now();
+    let result: T | null = null;
+
+    try {
+      result = await infer();
+    } catch (error) {
+      console.error('Inference failed:', error);
+    }
+
+    if (!running || runGeneration !== generation) return;
+
+    const finishedAt = performance.now();
+    const latency = finishedAt - capturedAt;
+
+    if (result !== null) {
+      recordCompletion(finishedAt, latency);
+
+      if (latency > maxFrameAge) {
+        stats.dropped++;
+      } else {
+        onResult(result, capturedAt);
+      }
+      onStats?.({ ...stats });
+    }
+
+    // Start the next inference one interval after this one started
+    const delay = Math.max(0, stats.interval - latency);
+    timeout = window.setTimeout(() => run(runGeneration), delay);
+  };
+
+  const run = (runGeneration: number) => {
+    inFlight = tick(runGeneration).catch(error => {
+      console.error('Inference scheduling failed:', error);
+    });
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      const runGeneration = ++generation;
+      completions = [];
+      // An inference started before the last stop may still be running
+      inFlight.then(() => {
+        if (running && runGeneration === generation) run(runGeneration);
+      });
+    },
+    stop: () => {
+      running = false;
+      generation++;
+      if (timeout !== null) {
+        window.clearTimeout(timeout);
+        timeout = null;
+      }
+    },
+    getStats: () => ({ ...stats }),
+  };
+};
@@ -0,0 +1,49 @@
+import type { FaceDetector } from '@mediapipe/tasks-vision';
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+
+// The package declares this shape but does not export it
+type WasmFileset = Parameters<typeof FaceDetector.createFromOptions>[0];
+
+/**
+ * The MediaPipe vision runtime, bundled with the app so no CDN is involved
+ */
+export const visionWasmFileset: WasmFileset = { wasmLoaderPath, wasmBinaryPath };
+
+/**
+ * Task models served from public/models, so detection works offline.
+ * They are the float16 models published by the MediaPipe team under
+ * https://storage.googleapis.com/mediapipe-models/<task>/<model>/float16/1/
+ */
+export const MEDIAPIPE_MODELS = {
+  faceDetector: 'blaze_face_short_range.tflite',
+  faceLandmarker: 'face_landmarker.task',
+  handLandmarker: 'hand_landmarker.task',
+} as const;
+
+/**
+ * Fetches a task model shipped with the app
+ * @throws Error naming the file when it is missing from public/models
+ */
+export const loadModelAsset = async (file: string): Promise<Uint8Array> => {
+  const response = await fetch(`${import.meta.env.BASE_URL}models/${file}`);
+  // The dev server answers unknown paths with index.html rather than a 404
+  if (!response.ok || response.headers.get('content-type')?.includes('text/html')) {
+    throw new Error(`Model file public/models/${file} is missing`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Creates a MediaPipe task on the GPU, retrying on the CPU when WebGL is unavailable
+ */
+export const createVisionTask = async <T>(
+  create: (delegate: 'GPU' | 'CPU') => Promise<T>
+): Promise<T> => {
+  try {
+    return await create('GPU');
+  } catch (error) {
+    console.warn('GPU delegate unavailable, falling back to CPU:', error);
+    return create('CPU');
+  }
+};
@@ -0,0 +1,94 @@
+/**
+ * A pause in a recording, in the timebase of the resulting video
+ */
+export interface RecordingPause {
+  /** Position in the video where the pause happened, in milliseconds */
+  time: number;
+  /** How long recording was paused for, in milliseconds */
+  duration: number;
+}
+
+export interface RecordingClock {
+  /** Moves the origin, e.g. to when the recorder actually started */
+  anchor: (timestamp?: number) => void;
+  pause: (timestamp?: number) => void;
+  resume: (timestamp?: number) => void;
+  /** Freezes the clock so later reads return the final length */
+  stop: (timestamp?: number) => void;
+  isPaused: () => boolean;
+  /**
+   * Converts a performance.now() timestamp to a position in the video,
+   * or null if it falls inside a pause and so has no frame in the video
+   */
+  toMediaTime: (timestamp: number) => number | null;
+  /** Length of the video recorded so far, in milliseconds */
+  elapsed: () => number;
+  pauses: () => RecordingPause[];
+}
+
+interface PauseSpan {
+  start: number;
+  end: number | null;
+}
+
+/**
+ * Tracks recording time with pauses cut out, matching how MediaRecorder
+ * leaves paused stretches out of the video it produces
+ * @param startedAt - performance.now() timestamp the recording started at
+ */
+export const createRecordingClock = (startedAt = performance.now()): RecordingClock => {
+  let origin = startedAt;
+  let stoppedAt: number | null = null;
+  const spans: PauseSpan[] = [];
+
+  const openSpan = () => {
+    const last = spans[spans.length - 1];
+    return last && last.end === null ? last : null;
+  };
+
+  // Time spent paused before a timestamp
+  const pausedBefore = (timestamp: number) =>
+    spans.reduce((total, span) => {
+      const end = Math.min(span.end ?? timestamp, timestamp);
+      return end > span.start ? total + end - span.start : total;
+    }, 0);
+
+  const toMediaTime = (timestamp: number) => {
+    const inPause = spans.some(span => timestamp >= span.start && (span.end === null || timestamp < span.end));
+    if (inPause) return null;
+    return Math.max(0, timestamp - origin - pausedBefore(timestamp));
+  };
+
+  return {
+    anchor: (timestamp = performance.now()) => {
+      origin = timestamp;
+    },
+    pause: (timestamp = performance.now()) => {
+      if (stoppedAt === null && !openSpan()) {
+        spans.push({ start: timestamp, end: null });
+      }
+    },
+    resume: (timestamp = performance.now()) => {
+      const span = openSpan();
+      if (span) span.end = timestamp;
+    },
+    stop: (timestamp = performance.now()) => {
+      if (stoppedAt !== null) return;
+      // A pause that is never resumed adds nothing to the video
+      stoppedAt = openSpan()?.start ?? timestamp;
+    },
+    isPaused: () => openSpan() !== null,
+    toMediaTime,
+    elapsed: () => {
+      const now = stoppedAt ?? openSpan()?.start ?? performance.now();
+      return Math.max(0, now - origin - pausedBefore(now));
+    },
+    pauses: () =>
+      spans
+        .filter((span): span is { start: number; end: number } => span.end !== null)
+        .map(span => ({
+          time: Math.max(0, span.start - origin - pausedBefore(span.start)),
+          duration: span.end - span.start,
+        })),
+  };
+};
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { extensionForMimeType, negotiateRecordingFormat } from '@/utils/recordingFormats';
+
+// Stands in for MediaRecorder, supporting only the given mime types
+const supportOnly = (...types: string[]) => {
+  vi.stubGlobal('MediaRecorder', { isTypeSupported: (type: string) => types.includes(type) });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('extensionForMimeType', () => {
+  it('maps containers to their extension, ignoring codecs and case', () => {
+    expect(extensionForMimeType('video/mp4;codecs=avc1')).toBe('mp4');
+    expect(extensionForMimeType('Video/QuickTime')).toBe('mov');
+    expect(extensionForMimeType('video/x-matroska;codecs=avc1')).toBe('mkv');
+    expect(extensionForMimeType('video/webm;codecs=vp9,opus')).toBe('webm');
+  });
+
+  it('defaults to webm for unknown or empty types', () => {
+    expect(extensionForMimeType('')).toBe('webm');
+    expect(extensionForMimeType('video/ogg')).toBe('webm');
+  });
+});
+
+describe('negotiateRecordingFormat', () => {
+  it('lets the browser choose when MediaRecorder is missing', () => {
+    expect(negotiateRecordingFormat(['vp9'])).toEqual({ mimeType: '', codec: null, extension: 'webm' });
+  });
+
+  it('picks the first supported codec in order of preference', () => {
+    supportOnly('video/webm;codecs=vp8', 'video/mp4;codecs=avc1');
+
+    expect(negotiateRecordingFormat(['av1', 'h264', 'vp8'])).toEqual({
+      mimeType: 'video/mp4;codecs=avc1',
+      codec: 'h264',
+      extension: 'mp4',
+    });
+  });
+
+  it('falls back to a bare container when no preferred codec is supported', () => {
+    supportOnly('video/mp4');
+
+    expect(negotiateRecordingFormat(['vp9', 'vp8'])).toEqual({ mimeType: 'video/mp4', codec: null, extension: 'mp4' });
+  });
+
+  it('lets the browser choose when nothing is supported', () => {
+    supportOnly();
+
+    expect(negotiateRecordingFormat(['vp9'])).toEqual({ mimeType: '', codec: null, extension: 'webm' });
+  });
+});
@@ -0,0 +1,63 @@
+export type VideoCodec = 'av1' | 'vp9' | 'vp8' | 'h264';
+
+export interface RecordingFormat {
+  /** Mime type to hand to MediaRecorder; empty lets the browser choose */
+  mimeType: string;
+  codec: VideoCodec | null;
+  /** File extension matching the container, without the dot */
+  extension: string;
+}
+
+// Every spelling browsers are known to accept for each codec, most specific first
+const CODEC_MIME_TYPES: Record<VideoCodec, string[]> = {
+  av1: ['video/webm;codecs=av01,opus', 'video/webm;codecs=av1,opus', 'video/mp4;codecs=av01,mp4a.40.2'],
+  vp9: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp9', 'video/mp4;codecs=vp09,mp4a.40.2'],
+  vp8: ['video/webm;codecs=vp8,opus', 'video/webm;codecs=vp8'],
+  h264: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1', 'video/webm;codecs=h264,opus'],
+};
+
+// Containers tried without naming a codec once no preferred codec is available
+const CONTAINER_FALLBACKS = ['video/webm', 'video/mp4'];
+
+/**
+ * Maps a mime type to the extension of its container
+ * @param mimeType - A mime type, with or without a codecs parameter
+ */
+export const extensionForMimeType = (mimeType: string): string => {
+  const container = mimeType.split(';')[0].trim().toLowerCase();
+  switch (container) {
+    case 'video/mp4':
+      return 'mp4';
+    case 'video/quicktime':
+      return 'mov';
+    case 'video/x-matroska':
+      return 'mkv';
+    default:
+      return 'webm';
+  }
+};
+
+/**
+ * Probes MediaRecorder for the first supported codec in order of preference,
+ * falling back to a bare container and finally to the browser's default
+ * @param preference - Codecs to try, best first
+ */
+export const negotiateRecordingFormat = (preference: VideoCodec[]): RecordingFormat => {
+  if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') {
+    return { mimeType: '', codec: null, extension: 'webm' };
+  }
+
+  for (const codec of preference) {
+    const mimeType = CODEC_MIME_TYPES[codec].find(type => MediaRecorder.isTypeSupported(type));
+    if (mimeType) {
+      return { mimeType, codec, extension: extensionForMimeType(mimeType) };
+    }
+  }
+
+  const container = CONTAINER_FALLBACKS.find(type => MediaRecorder.isTypeSupported(type));
+  return {
+    mimeType: container ?? '',
+    codec: null,
+    extension: extensionForMimeType(container ?? '')
+  };
+};
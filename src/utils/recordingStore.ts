@@ -0,0 +1,460 @@
+import type { EmotionSample } from '@/utils/emotionTimeline';
+import type { SmoothingSettings } from '@/utils/emotionSmoothing';
+import type { AppliedCalibration } from '@/utils/emotionCalibration';
+import type { CaptureSettings } from '@/utils/captureProfiles';
+import type { RecordingPause } from '@/utils/recordingClock';
+import type { AudioStats } from '@/utils/audioLevels';
+import type { AttentionSample } from '@/utils/attentionTracking';
+import type { GestureEvent } from '@/utils/gestureDetection';
+
+const DB_NAME = 'videomotion-studio';
+const DB_VERSION = 3;
+
+// Metadata, video blobs and analysis timelines live in separate stores so
+// listing the library never has to pull every recording's data into memory.
+const RECORDINGS_STORE = 'recordings';
+const VIDEOS_STORE = 'videos';
+const ANALYSIS_STORE = 'analysis';
+// Recordings still in progress are written here chunk by chunk, so a crash
+// or closed tab leaves something to recover
+const SESSIONS_STORE = 'sessions';
+const CHUNKS_STORE = 'chunks';
+
+// Held by the tab that owns a session; a session nobody holds was interrupted
+const SESSION_LOCK_PREFIX = 'videomotion:session:';
+
+export interface RecordingMetadata {
+  id: string;
+  title: string;
+  /** ISO 8601 timestamp of when the recording was started */
+  createdAt: string;
+  /** Length of the recording in seconds */
+  duration: number;
+  mimeType: string;
+  /** Size of the video blob in bytes */
+  size: number;
+  /** JPEG data URL, or null when no frame could be captured */
+  thumbnail: string | null;
+  /** Resolution, frame rate and bitrates the recording was made with */
+  capture?: CaptureSettings;
+  /** Free-form labels for grouping recordings, e.g. "interview" or "practice" */
+  tags?: string[];
+}
+
+/**
+ * Time series captured while a recording was running
+ */
+export interface RecordingAnalysis {
+  emotions: EmotionSample[];
+  /** Filter settings that produced each sample's smoothed values */
+  smoothing?: SmoothingSettings;
+  /** Temperature scaling applied to each sample's scores; absent for raw model output */
+  calibration?: AppliedCalibration;
+  /** Where the recording was paused; sample times already exclude these */
+  pauses?: RecordingPause[];
+  /** Microphone loudness over the recording */
+  audio?: AudioStats;
+  /** Head pose and gaze, and whether the speaker was looking at the camera */
+  attention?: AttentionSample[];
+  /** Hand gestures, each with when it started and how long it was held */
+  gestures?: GestureEvent[];
+}
+
+export interface NewRecording {
+  /** Keeps the id of a recording imported from another machine */
+  id?: string;
+  title: string;
+  blob: Blob;
+  duration: number;
+  thumbnail: string | null;
+  createdAt?: string;
+  capture?: CaptureSettings;
+  tags?: string[];
+  analysis?: RecordingAnalysis;
+  /** In-progress session this recording completes; its chunks are removed */
+  sessionId?: string;
+}
+
+/**
+ * A recording that has been started but not yet saved
+ */
+export interface RecordingSession {
+  id: string;
+  title: string;
+  createdAt: string;
+  /** ISO 8601 timestamp of the last chunk written */
+  updatedAt: string;
+  mimeType: string;
+  capture?: CaptureSettings;
+  smoothing?: SmoothingSettings;
+  calibration?: AppliedCalibration;
+  pauses?: RecordingPause[];
+  audio?: AudioStats;
+  /** Length recorded so far in seconds, as of the last chunk */
+  duration: number;
+}
+
+export type NewRecordingSession = Pick<
+  RecordingSession,
+  'id' | 'title' | 'createdAt' | 'mimeType' | 'capture' | 'smoothing' | 'calibration'
+>;
+
+/**
+ * One slice of recorded video, with the samples analysed since the previous one
+ */
+export interface RecordingChunk {
+  /** Order of the chunk within its session, starting at 0 */
+  index: number;
+  blob: Blob;
+  /** Length recorded up to the end of this chunk, in seconds */
+  duration: number;
+  emotions: EmotionSample[];
+  attention?: AttentionSample[];
+  gestures?: GestureEvent[];
+}
+
+interface StoredChunk extends RecordingChunk {
+  sessionId: string;
+}
+
+export type RecordingUpdate = Partial<Omit<RecordingMetadata, 'id' | 'size' | 'mimeType' | 'capture'>>;
+
+interface StoredVideo {
+  id: string;
+  blob: Blob;
+}
+
+interface StoredAnalysis extends RecordingAnalysis {
+  id: string;
+}
+
+const EMPTY_ANALYSIS: RecordingAnalysis = { emotions: [] };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the recordings database.
+ * The connection is shared for the lifetime of the page.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        const store = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+        db.createObjectStore(VIDEOS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ANALYSIS_STORE)) {
+        db.createObjectStore(ANALYSIS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        db.createObjectStore(CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Every chunk of a session, in recording order
+const sessionChunkRange = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+/**
+ * Saves a finished recording with its video blob and analysis
+ * @returns The metadata of the stored recording
+ */
+export const createRecording = async (input: NewRecording): Promise<RecordingMetadata> => {
+  const db = await openDatabase();
+
+  const metadata: RecordingMetadata = {
+    id: input.id ?? crypto.randomUUID(),
+    title: input.title,
+    createdAt: input.createdAt ?? new Date().toISOString(),
+    duration: input.duration,
+    mimeType: input.blob.type || 'video/webm',
+    size: input.blob.size,
+    thumbnail: input.thumbnail,
+    ...(input.capture ? { capture: input.capture } : {}),
+    ...(input.tags?.length ? { tags: input.tags } : {}),
+  };
+
+  const analysis: StoredAnalysis = { ...EMPTY_ANALYSIS, ...input.analysis, id: metadata.id };
+
+  const transaction = db.transaction(
+    [RECORDINGS_STORE, VIDEOS_STORE, ANALYSIS_STORE, SESSIONS_STORE, CHUNKS_STORE],
+    'readwrite'
+  );
+  transaction.objectStore(RECORDINGS_STORE).put(metadata);
+  transaction.objectStore(VIDEOS_STORE).put({ id: metadata.id, blob: input.blob } satisfies StoredVideo);
+  transaction.objectStore(ANALYSIS_STORE).put(analysis);
+  // Saved and cleaned up together, so a session is never both recovered and kept
+  if (input.sessionId) {
+    transaction.objectStore(SESSIONS_STORE).delete(input.sessionId);
+    transaction.objectStore(CHUNKS_STORE).delete(sessionChunkRange(input.sessionId));
+  }
+  await transactionDone(transaction);
+
+  return metadata;
+};
+
+/**
+ * Lists all stored recordings, newest first
+ */
+export const listRecordings = async (): Promise<RecordingMetadata[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(RECORDINGS_STORE, 'readonly').objectStore(RECORDINGS_STORE);
+  const recordings = await requestToPromise<RecordingMetadata[]>(store.getAll());
+
+  return recordings.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Gets the metadata of a single recording
+ * @returns The recording, or null if it does not exist
+ */
+export const getRecording = async (id: string): Promise<RecordingMetadata | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(RECORDINGS_STORE, 'readonly').objectStore(RECORDINGS_STORE);
+  const recording = await requestToPromise<RecordingMetadata | undefined>(store.get(id));
+
+  return recording ?? null;
+};
+
+/**
+ * Gets the video blob of a recording
+ * @returns The video, or null if it does not exist
+ */
+export const getRecordingBlob = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(VIDEOS_STORE, 'readonly').objectStore(VIDEOS_STORE);
+  const video = await requestToPromise<StoredVideo | undefined>(store.get(id));
+
+  return video?.blob ?? null;
+};
+
+/**
+ * Gets the analysis timelines of a recording
+ * @returns The analysis, or null if the recording does not exist
+ */
+export const getRecordingAnalysis = async (id: string): Promise<RecordingAnalysis | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(ANALYSIS_STORE, 'readonly').objectStore(ANALYSIS_STORE);
+  const stored = await requestToPromise<StoredAnalysis | undefined>(store.get(id));
+  if (!stored) return null;
+
+  const { id: _id, ...analysis } = stored;
+  return { ...EMPTY_ANALYSIS, ...analysis };
+};
+
+/**
+ * Applies changes to a recording's metadata
+ * @returns The updated recording
+ */
+export const updateRecording = async (id: string, changes: RecordingUpdate): Promise<RecordingMetadata> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
+  const store = transaction.objectStore(RECORDINGS_STORE);
+
+  const existing = await requestToPromise<RecordingMetadata | undefined>(store.get(id));
+  if (!existing) {
+    throw new Error(`Recording ${id} not found`);
+  }
+
+  const updated: RecordingMetadata = { ...existing, ...changes, id };
+  store.put(updated);
+  await transactionDone(transaction);
+
+  return updated;
+};
+
+/**
+ * Replaces parts of a recording's analysis, e.g. after its video was analysed again
+ * @returns The updated analysis
+ */
+export const updateRecordingAnalysis = async (
+  id: string,
+  changes: Partial<RecordingAnalysis>
+): Promise<RecordingAnalysis> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(ANALYSIS_STORE, 'readwrite');
+  const store = transaction.objectStore(ANALYSIS_STORE);
+
+  const existing = await requestToPromise<StoredAnalysis | undefined>(store.get(id));
+  const updated: StoredAnalysis = { ...EMPTY_ANALYSIS, ...existing, ...changes, id };
+  store.put(updated);
+  await transactionDone(transaction);
+
+  const { id: _id, ...analysis } = updated;
+  return analysis;
+};
+
+/**
+ * Deletes a recording with its video and analysis
+ */
+export const deleteRecording = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, VIDEOS_STORE, ANALYSIS_STORE], 'readwrite');
+  transaction.objectStore(RECORDINGS_STORE).delete(id);
+  transaction.objectStore(VIDEOS_STORE).delete(id);
+  transaction.objectStore(ANALYSIS_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+/**
+ * Starts persisting a recording that is in progress
+ * @returns The new session
+ */
+export const createRecordingSession = async (input: NewRecordingSession): Promise<RecordingSession> => {
+  const db = await openDatabase();
+  const session: RecordingSession = {
+    ...input,
+    updatedAt: new Date().toISOString(),
+    duration: 0,
+  };
+
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(transaction);
+
+  return session;
+};
+
+/**
+ * Holds a lock on the session for as long as this page is alive, which is
+ * how other tabs tell a live session from an interrupted one. Take it before
+ * the session is created, so no other tab ever sees the session unlocked.
+ * @returns Once the lock is held, a function that releases it. When locks are
+ * unavailable or the request fails, the session goes ahead unlocked.
+ */
+export const holdRecordingSession = (id: string): Promise<() => void> => {
+  if (!navigator.locks) return Promise.resolve(() => {});
+
+  return new Promise(resolve => {
+    navigator.locks
+      .request(`${SESSION_LOCK_PREFIX}${id}`, () => new Promise<void>(release => resolve(release)))
+      .catch(error => {
+        // Recording matters more than the lock; other tabs may offer to recover this session
+        console.warn('Could not lock recording session, continuing without it:', error);
+        resolve(() => {});
+      });
+  });
+};
+
+/**
+ * Appends the next chunk of video to a session
+ */
+export const appendRecordingChunk = async (
+  sessionId: string,
+  chunk: RecordingChunk,
+  changes: Partial<Pick<RecordingSession, 'pauses' | 'audio'>> = {}
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+
+  const session = await requestToPromise<RecordingSession | undefined>(sessions.get(sessionId));
+  if (!session) {
+    throw new Error(`Recording session ${sessionId} not found`);
+  }
+
+  transaction.objectStore(CHUNKS_STORE).put({ ...chunk, sessionId } satisfies StoredChunk);
+  sessions.put({
+    ...session,
+    ...changes,
+    duration: Math.max(session.duration, chunk.duration),
+    updatedAt: new Date().toISOString(),
+  } satisfies RecordingSession);
+  await transactionDone(transaction);
+};
+
+/**
+ * Lists sessions whose recording tab is gone, most recent first
+ */
+export const listInterruptedSessions = async (): Promise<RecordingSession[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE);
+  const sessions = await requestToPromise<RecordingSession[]>(store.getAll());
+
+  const held = new Set(
+    navigator.locks ? ((await navigator.locks.query()).held ?? []).map(lock => lock.name) : []
+  );
+
+  return sessions
+    .filter(session => !held.has(`${SESSION_LOCK_PREFIX}${session.id}`))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Reassembles an interrupted session into a recording ready to be saved
+ * @returns The recording, or null if the session has no video
+ */
+export const loadRecordingSession = async (id: string): Promise<NewRecording | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readonly');
+  const session = await requestToPromise<RecordingSession | undefined>(
+    transaction.objectStore(SESSIONS_STORE).get(id)
+  );
+  const chunks = await requestToPromise<StoredChunk[]>(
+    transaction.objectStore(CHUNKS_STORE).getAll(sessionChunkRange(id))
+  );
+  if (!session || chunks.length === 0) return null;
+
+  return {
+    title: session.title,
+    blob: new Blob(chunks.map(chunk => chunk.blob), { type: session.mimeType }),
+    duration: session.duration,
+    thumbnail: null,
+    createdAt: session.createdAt,
+    capture: session.capture,
+    analysis: {
+      emotions: chunks.flatMap(chunk => chunk.emotions).sort((a, b) => a.time - b.time),
+      attention: chunks.flatMap(chunk => chunk.attention ?? []).sort((a, b) => a.time - b.time),
+      gestures: chunks.flatMap(chunk => chunk.gestures ?? []).sort((a, b) => a.time - b.time),
+      smoothing: session.smoothing,
+      calibration: session.calibration,
+      pauses: session.pauses,
+      audio: session.audio,
+    },
+    sessionId: id,
+  };
+};
+
+/**
+ * Deletes a session and every chunk written for it
+ */
+export const deleteRecordingSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  transaction.objectStore(CHUNKS_STORE).delete(sessionChunkRange(id));
+  await transactionDone(transaction);
+};
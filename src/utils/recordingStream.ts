@@ -0,0 +1,201 @@
+import { createFrameClock } from '@/utils/frameClock';
+
+const DEFAULT_FRAME_RATE = 30;
+
+/** What is drawn into the recording: the camera, the screen, or the screen with a camera bubble */
+export type CompositeLayout = 'camera' | 'screen' | 'pip';
+
+/**
+ * Where the camera bubble sits in picture-in-picture mode, relative to the output
+ */
+export interface BubblePlacement {
+  /** Centre of the bubble as a fraction of the output width (0-1) */
+  x: number;
+  /** Centre of the bubble as a fraction of the output height (0-1) */
+  y: number;
+  /** Diameter of the bubble as a fraction of the output height */
+  size: number;
+}
+
+export const DEFAULT_BUBBLE: BubblePlacement = { x: 0.86, y: 0.78, size: 0.32 };
+
+export const MIN_BUBBLE_SIZE = 0.12;
+export const MAX_BUBBLE_SIZE = 0.8;
+
+/**
+ * Keeps a bubble a sensible size and fully inside an output of the given aspect ratio
+ */
+export const clampBubble = (bubble: BubblePlacement, aspectRatio: number): BubblePlacement => {
+  const size = Math.min(MAX_BUBBLE_SIZE, Math.max(MIN_BUBBLE_SIZE, bubble.size));
+  const radiusX = size / 2 / aspectRatio;
+  const radiusY = size / 2;
+  return {
+    size,
+    x: Math.min(1 - radiusX, Math.max(radiusX, bubble.x)),
+    y: Math.min(1 - radiusY, Math.max(radiusY, bubble.y)),
+  };
+};
+
+export interface RecordingStream {
+  /** The stream handed to MediaRecorder; its tracks never change */
+  stream: MediaStream;
+  /** Feeds a new camera track into the recorded video */
+  setVideoSource: (track: MediaStreamTrack | null) => void;
+  /** Feeds a new microphone track into the recorded audio */
+  setAudioSource: (track: MediaStreamTrack | null) => void;
+  /** Feeds a shared screen, and optionally its audio, into the recording */
+  setScreenSource: (video: MediaStreamTrack | null, audio?: MediaStreamTrack | null) => void;
+  setLayout: (layout: CompositeLayout) => void;
+  setBubble: (bubble: BubblePlacement) => void;
+  /** Current resolution of the recorded video */
+  getOutputSize: () => { width: number; height: number };
+  /** Caps how many frames per second are emitted to the recorder */
+  setFrameRate: (frameRate: number) => void;
+  /** Resumes audio processing; browsers only allow this after a user gesture */
+  resume: () => Promise<void>;
+  dispose: () => void;
+}
+
+/**
+ * Builds a stream whose tracks stay the same while its sources are swapped.
+ * MediaRecorder cannot follow a track replacement, so video is redrawn onto
+ * a canvas and audio is routed through a Web Audio graph; switching camera or
+ * microphone then only changes what feeds them. The same canvas composites a
+ * shared screen, with the camera as a bubble on top in picture-in-picture mode.
+ * Frames are drawn on a worker clock, so recording continues while the tab is
+ * hidden, as it usually is when sharing another window.
+ */
+export const createRecordingStream = (frameRate = DEFAULT_FRAME_RATE): RecordingStream => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1280;
+  canvas.height = 720;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context');
+
+  const createSourceVideo = () => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    return video;
+  };
+  const sourceVideo = createSourceVideo();
+  const screenVideo = createSourceVideo();
+
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  let audioSource: MediaStreamAudioSourceNode | null = null;
+  let screenAudioSource: MediaStreamAudioSourceNode | null = null;
+
+  let layout: CompositeLayout = 'camera';
+  let bubble = DEFAULT_BUBBLE;
+
+  // Frames are pushed manually so the output rate can change after creation
+  const [videoTrack] = canvas.captureStream(0).getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const stream = new MediaStream([videoTrack, ...audioDestination.stream.getAudioTracks()]);
+
+  const hasFrame = (video: HTMLVideoElement) => video.videoWidth > 0 && video.videoHeight > 0;
+
+  // Draws the camera into a circle, cropped to fill it
+  const drawBubble = () => {
+    const { x, y, size } = clampBubble(bubble, canvas.width / canvas.height);
+    const diameter = size * canvas.height;
+    const centreX = x * canvas.width;
+    const centreY = y * canvas.height;
+
+    const crop = Math.min(sourceVideo.videoWidth, sourceVideo.videoHeight);
+    context.save();
+    context.beginPath();
+    context.arc(centreX, centreY, diameter / 2, 0, Math.PI * 2);
+    context.clip();
+    context.drawImage(
+      sourceVideo,
+      (sourceVideo.videoWidth - crop) / 2,
+      (sourceVideo.videoHeight - crop) / 2,
+      crop,
+      crop,
+      centreX - diameter / 2,
+      centreY - diameter / 2,
+      diameter,
+      diameter
+    );
+    context.restore();
+
+    context.beginPath();
+    context.arc(centreX, centreY, diameter / 2, 0, Math.PI * 2);
+    context.lineWidth = Math.max(2, diameter * 0.02);
+    context.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    context.stroke();
+  };
+
+  const draw = () => {
+    // Without a shared screen there is only the camera to draw
+    const background = layout !== 'camera' && hasFrame(screenVideo) ? screenVideo : sourceVideo;
+    if (hasFrame(background)) {
+      // Follow the background's resolution so nothing is stretched
+      if (canvas.width !== background.videoWidth || canvas.height !== background.videoHeight) {
+        canvas.width = background.videoWidth;
+        canvas.height = background.videoHeight;
+      }
+      context.drawImage(background, 0, 0, canvas.width, canvas.height);
+    } else {
+      context.fillStyle = '#000';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    if (layout === 'pip' && background === screenVideo && hasFrame(sourceVideo)) {
+      drawBubble();
+    }
+    videoTrack.requestFrame();
+  };
+  const clock = createFrameClock(1000 / frameRate, draw);
+
+  return {
+    stream,
+    setVideoSource: (track) => {
+      sourceVideo.srcObject = track ? new MediaStream([track]) : null;
+      if (track) {
+        sourceVideo.play().catch(error => console.error('Could not play video source:', error));
+      }
+    },
+    setAudioSource: (track) => {
+      audioSource?.disconnect();
+      audioSource = null;
+      if (track) {
+        audioSource = audioContext.createMediaStreamSource(new MediaStream([track]));
+        audioSource.connect(audioDestination);
+      }
+    },
+    setScreenSource: (video, audio = null) => {
+      screenVideo.srcObject = video ? new MediaStream([video]) : null;
+      if (video) {
+        screenVideo.play().catch(error => console.error('Could not play screen source:', error));
+      }
+      screenAudioSource?.disconnect();
+      screenAudioSource = null;
+      if (audio) {
+        screenAudioSource = audioContext.createMediaStreamSource(new MediaStream([audio]));
+        screenAudioSource.connect(audioDestination);
+      }
+    },
+    setLayout: (next) => {
+      layout = next;
+    },
+    setBubble: (next) => {
+      bubble = next;
+    },
+    getOutputSize: () => ({ width: canvas.width, height: canvas.height }),
+    setFrameRate: (rate) => {
+      clock.setInterval(1000 / rate);
+    },
+    resume: () => audioContext.resume(),
+    dispose: () => {
+      clock.stop();
+      audioSource?.disconnect();
+      screenAudioSource?.disconnect();
+      sourceVideo.srcObject = null;
+      screenVideo.srcObject = null;
+      stream.getTracks().forEach(track => track.stop());
+      audioContext.close();
+    }
+  };
+};
@@ -0,0 +1,169 @@
+import { EMOTION_KEYS, EMOTION_PALETTE } from '@/utils/emotionPalette';
+import { formatDate, formatDuration, formatPercent } from '@/utils/format';
+import type { SessionReport } from '@/utils/sessionReport';
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Everything is inlined so the file renders the same offline, and prints on A4 or Letter
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font: 14px/1.5 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #0f172a; margin: 0; padding: 32px; max-width: 880px; margin-inline: auto; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 12px; padding-bottom: 4px; border-bottom: 1px solid #e2e8f0; }
+  .muted { color: #64748b; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 20px; }
+  .stat { border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px 12px; }
+  .stat .value { font-size: 18px; font-weight: 600; }
+  .bar-row { display: grid; grid-template-columns: 90px 1fr 48px; align-items: center; gap: 8px; margin: 4px 0; }
+  .bar { height: 10px; background: #f1f5f9; border-radius: 5px; overflow: hidden; }
+  .bar > span { display: block; height: 100%; }
+  .strip { display: flex; height: 24px; border-radius: 6px; overflow: hidden; border: 1px solid #e2e8f0; }
+  .strip > span { height: 100%; }
+  .axis { display: flex; justify-content: space-between; font-size: 12px; }
+  .legend { display: flex; flex-wrap: wrap; gap: 12px; font-size: 12px; margin-top: 8px; }
+  .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 4px; vertical-align: middle; }
+  .moments { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; }
+  .moment { border: 1px solid #e2e8f0; border-radius: 8px; overflow: hidden; break-inside: avoid; }
+  .moment img, .moment .blank { display: block; width: 100%; aspect-ratio: 16 / 9; object-fit: cover; background: #f1f5f9; }
+  .moment div { padding: 6px 8px; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  footer { margin-top: 32px; font-size: 12px; }
+  @page { margin: 16mm; }
+  @media print {
+    body { padding: 0; }
+    h2 { break-after: avoid; }
+    .strip > span, .bar > span, .swatch { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+const stat = (label: string, value: string) =>
+  `<div class="stat"><div class="muted">${label}</div><div class="value">${value}</div></div>`;
+
+/**
+ * Renders a session report as a self-contained HTML document, with moment
+ * thumbnails embedded as data URLs
+ * @param frames - Thumbnails of the report's moments, keyed by time
+ */
+export const renderReportHtml = (report: SessionReport, frames: Map<number, string>): string => {
+  const durationMs = report.duration * 1000 || 1;
+
+  const distribution = EMOTION_KEYS.map(key => `
+    <div class="bar-row">
+      <span>${EMOTION_PALETTE[key].label}</span>
+      <div class="bar"><span style="width:${formatPercent(report.distribution[key])};background:${EMOTION_PALETTE[key].color}"></span></div>
+      <span class="muted">${formatPercent(report.distribution[key])}</span>
+    </div>`).join('');
+
+  const strip = report.timeline.map(segment => {
+    const color = segment.emotion ? EMOTION_PALETTE[segment.emotion].color : '#e2e8f0';
+    const title = `${formatDuration(segment.start / 1000)}: ${segment.emotion ? EMOTION_PALETTE[segment.emotion].label : 'No data'}`;
+    return `<span style="width:${((segment.end - segment.start) / durationMs) * 100}%;background:${color}" title="${title}"></span>`;
+  }).join('');
+
+  const legend = EMOTION_KEYS
+    .filter(key => report.timeline.some(segment => segment.emotion === key))
+    .map(key => `<span><span class="swatch" style="background:${EMOTION_PALETTE[key].color}"></span>${EMOTION_PALETTE[key].label}</span>`)
+    .join('');
+
+  const moments = report.moments.map(moment => {
+    const frame = frames.get(moment.time);
+    return `
+      <div class="moment">
+        ${frame ? `<img src="${frame}" alt="">` : '<span class="blank"></span>'}
+        <div><strong>${EMOTION_PALETTE[moment.emotion].label}</strong> ${formatPercent(moment.score)}
+        <span class="muted">at ${formatDuration(moment.time / 1000)}</span></div>
+      </div>`;
+  }).join('');
+
+  const gestures = report.gestures.length
+    ? `<table><tr><th>Gesture</th><th>Times</th><th>Held for</th></tr>${report.gestures.map(gesture =>
+      `<tr><td>${gesture.label}</td><td>${gesture.count}</td><td>${gesture.heldSeconds.toFixed(1)}s</td></tr>`
+    ).join('')}</table>`
+    : '<p class="muted">No gestures were detected.</p>';
+
+  const calibration = report.calibration
+    ? `Confidence was calibrated; the model was ${formatPercent(report.calibration.accuracy)} accurate on ${report.calibration.samples} labeled images.`
+    : 'Confidence is the raw model output and was not calibrated.';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)} — Session report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <div class="muted">Recorded ${formatDate(report.createdAt)}</div>
+
+  <div class="stats">
+    ${stat('Duration', formatDuration(report.duration))}
+    ${stat('Paused', report.pauseCount ? `${report.pauseCount}× · ${formatDuration(report.pausedSeconds)}` : 'Never')}
+    ${stat('Dominant emotion', report.dominantEmotion ? EMOTION_PALETTE[report.dominantEmotion].label : '—')}
+    ${stat('Frames analyzed', `${report.samples}${report.faceDetectedShare !== null ? ` · ${formatPercent(report.faceDetectedShare)} with a face` : ''}`)}
+  </div>
+
+  <h2>Emotion distribution</h2>
+  ${report.samples ? distribution : '<p class="muted">This recording has no emotion analysis.</p>'}
+
+  <h2>Dominant emotion over time</h2>
+  <div class="strip">${strip}</div>
+  <div class="axis muted"><span>0:00</span><span>${formatDuration(report.duration)}</span></div>
+  <div class="legend">${legend}</div>
+
+  <h2>Top moments</h2>
+  ${report.moments.length ? `<div class="moments">${moments}</div>` : '<p class="muted">No strong expressions were found.</p>'}
+
+  <h2>Attention</h2>
+  ${report.attention
+    ? `<div class="stats">
+        ${stat('Looking at camera', formatPercent(report.attention.lookingAtCameraShare))}
+        ${stat('Average attention', formatPercent(report.attention.averageAttention))}
+      </div>`
+    : '<p class="muted">Gaze was not tracked in this recording.</p>'}
+
+  <h2>Gestures</h2>
+  ${gestures}
+
+  ${report.audio ? `
+  <h2>Audio</h2>
+  <div class="stats">
+    ${stat('Peak', `${report.audio.peakDb.toFixed(1)} dBFS`)}
+    ${stat('Average', `${report.audio.rmsDb.toFixed(1)} dBFS`)}
+    ${stat('Clipping', `${report.audio.clippingEvents}×`)}
+    ${stat('Silent', formatDuration(report.audio.silentSeconds))}
+  </div>` : ''}
+
+  <footer class="muted">
+    ${calibration}<br>
+    Generated by VideoMotion Studio on ${new Date(report.generatedAt).toLocaleString()}.
+  </footer>
+</body>
+</html>
+`;
+};
+
+/**
+ * Opens the browser's print dialog for a report, from which it can be saved as a PDF
+ */
+export const printReportHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    // Remove the frame once the dialog closes; printing is synchronous in some browsers
+    printWindow.addEventListener('afterprint', () => frame.remove());
+    printWindow.focus();
+    printWindow.print();
+  };
+  document.body.appendChild(frame);
+};
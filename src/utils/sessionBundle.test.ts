@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, BundleError, exportSessionBundle, importSessionBundle } from '@/utils/sessionBundle';
+import type { EmotionScores } from '@/utils/emotionDetection';
+import {
+  createRecording,
+  getRecording,
+  getRecordingAnalysis,
+  getRecordingBlob,
+  type RecordingAnalysis,
+  type RecordingMetadata,
+} from '@/utils/recordingStore';
+
+// Bundles are read and written in memory; only the library is stubbed
+vi.mock('@/utils/recordingStore', () => ({
+  createRecording: vi.fn(async ({ blob, analysis, ...recording }) => ({ ...recording, mimeType: blob.type, size: blob.size })),
+  getRecording: vi.fn(),
+  getRecordingAnalysis: vi.fn(),
+  getRecordingBlob: vi.fn(),
+}));
+
+// A score of zero for every emotion
+const NO_SCORES: EmotionScores = { happy: 0, neutral: 0, surprised: 0, sad: 0, angry: 0, disgust: 0, fear: 0 };
+
+const VIDEO = new Uint8Array([1, 2, 3, 4]);
+
+const RECORDING: RecordingMetadata = {
+  id: 'session-1',
+  title: 'Practice talk',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  duration: 42,
+  mimeType: 'video/webm;codecs=vp9,opus',
+  size: VIDEO.byteLength,
+  thumbnail: null,
+  tags: ['talk'],
+};
+
+const ANALYSIS: RecordingAnalysis = {
+  emotions: [{ time: 0, emotion: 'happy', confidence: 0.9, scores: { ...NO_SCORES, happy: 0.9 } }],
+};
+
+const manifest = (changes: Record<string, unknown> = {}) => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: '2024-05-02T10:00:00.000Z',
+  recording: RECORDING,
+  files: { video: 'video.webm' },
+  ...changes,
+});
+
+const bundle = (files: Record<string, unknown>) => {
+  const entries: Zippable = {};
+  Object.entries(files).forEach(([name, content]) => {
+    entries[name] = content instanceof Uint8Array ? content : strToU8(JSON.stringify(content));
+  });
+  return new Blob([zipSync(entries)]);
+};
+
+const expectBundleError = async (file: Blob, message: string | RegExp) => {
+  const result = importSessionBundle(file);
+  await expect(result).rejects.toBeInstanceOf(BundleError);
+  await expect(result).rejects.toThrow(message);
+};
+
+beforeEach(() => {
+  vi.mocked(getRecording).mockReset().mockResolvedValue(undefined);
+  vi.mocked(createRecording).mockClear();
+});
+
+describe('importSessionBundle', () => {
+  it('imports a valid bundle under its original id', async () => {
+    const recording = await importSessionBundle(
+      bundle({ 'manifest.json': manifest(), 'analysis.json': ANALYSIS, 'video.webm': VIDEO })
+    );
+
+    expect(recording.id).toBe('session-1');
+    expect(createRecording).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'session-1',
+      title: 'Practice talk',
+      tags: ['talk'],
+      thumbnail: null,
+      analysis: ANALYSIS,
+    }));
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    await expectBundleError(new Blob(['not a zip']), 'not a zip archive');
+  });
+
+  it('rejects archives without a bundle manifest', async () => {
+    await expectBundleError(bundle({ 'video.webm': VIDEO }), 'not a session bundle');
+    await expectBundleError(
+      bundle({ 'manifest.json': manifest({ format: 'something-else' }), 'video.webm': VIDEO }),
+      'not a session bundle'
+    );
+  });
+
+  it('asks for an update when the bundle is from a newer version', async () => {
+    await expectBundleError(
+      bundle({ 'manifest.json': manifest({ version: BUNDLE_VERSION + 1, recording: { id: 'future' } }) }),
+      `version ${BUNDLE_VERSION + 1}, but this app only reads up to version ${BUNDLE_VERSION}. Update the app`
+    );
+  });
+
+  it('names the fields of an invalid manifest', async () => {
+    await expectBundleError(
+      bundle({ 'manifest.json': manifest({ recording: { ...RECORDING, createdAt: 'yesterday' } }), 'video.webm': VIDEO }),
+      /manifest is invalid \(recording\.createdAt: /
+    );
+  });
+
+  it('rejects an invalid analysis', async () => {
+    await expectBundleError(
+      bundle({ 'manifest.json': manifest(), 'analysis.json': { emotions: [{ time: -1 }] }, 'video.webm': VIDEO }),
+      /analysis is invalid \(emotions\.0\./
+    );
+  });
+
+  it('rejects a video whose size does not match the manifest', async () => {
+    await expectBundleError(
+      bundle({ 'manifest.json': manifest(), 'analysis.json': ANALYSIS, 'video.webm': VIDEO.slice(0, 2) }),
+      'missing or incomplete'
+    );
+  });
+
+  it('refuses a recording that is already in the library', async () => {
+    vi.mocked(getRecording).mockResolvedValue(RECORDING);
+
+    await expectBundleError(
+      bundle({ 'manifest.json': manifest(), 'analysis.json': ANALYSIS, 'video.webm': VIDEO }),
+      'already in your library'
+    );
+    expect(createRecording).not.toHaveBeenCalled();
+  });
+});
+
+describe('exportSessionBundle', () => {
+  it('writes a bundle that imports back unchanged', async () => {
+    vi.mocked(getRecording).mockResolvedValueOnce(RECORDING);
+    vi.mocked(getRecordingBlob).mockResolvedValue(new Blob([VIDEO], { type: RECORDING.mimeType }));
+    vi.mocked(getRecordingAnalysis).mockResolvedValue(ANALYSIS);
+
+    const file = await exportSessionBundle(RECORDING.id);
+    const imported = await importSessionBundle(file);
+
+    expect(imported).toEqual(RECORDING);
+    const saved = vi.mocked(createRecording).mock.calls[0][0];
+    expect(saved.analysis).toEqual(ANALYSIS);
+    expect(new Uint8Array(await saved.blob.arrayBuffer())).toEqual(VIDEO);
+  });
+});
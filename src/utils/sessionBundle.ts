@@ -0,0 +1,297 @@
+import { unzip, zip, type Unzipped, type Zippable } from 'fflate';
+import { z } from 'zod';
+import {
+  createRecording,
+  getRecording,
+  getRecordingAnalysis,
+  getRecordingBlob,
+  type NewRecording,
+  type RecordingAnalysis,
+  type RecordingMetadata,
+} from '@/utils/recordingStore';
+import { extensionForMimeType } from '@/utils/recordingFormats';
+
+/** Identifies a zip as one of our bundles */
+export const BUNDLE_FORMAT = 'videomotion-session';
+
+/**
+ * Bumped whenever the bundle layout or its documents change shape. New
+ * optional fields (such as the recording's tags) are not a change of shape:
+ * older versions of the app drop them when parsing and import the rest.
+ */
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const ANALYSIS_FILE = 'analysis.json';
+
+/**
+ * Thrown when a file is not a bundle we can import, with a message for the user
+ */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+// Schemas mirror the stored types, so anything that parses can be saved as is.
+// The project compiles without strictNullChecks, under which zod infers every
+// field as optional, so parsed values are cast back to the stored types.
+const probability = z.number().min(0).max(1);
+
+const emotionScoresSchema = z.object({
+  happy: probability,
+  neutral: probability,
+  surprised: probability,
+  sad: probability,
+  angry: probability,
+  disgust: probability,
+  fear: probability,
+});
+
+const emotionSampleSchema = z.object({
+  time: z.number().nonnegative(),
+  emotion: z.string(),
+  confidence: probability,
+  scores: emotionScoresSchema,
+  faceDetected: z.boolean().optional(),
+  smoothed: z.object({
+    emotion: z.string(),
+    confidence: probability,
+    scores: emotionScoresSchema,
+  }).optional(),
+});
+
+const attentionSampleSchema = z.object({
+  time: z.number().nonnegative(),
+  faceDetected: z.boolean(),
+  lookingAtCamera: z.boolean(),
+  attention: probability,
+  yaw: z.number(),
+  pitch: z.number(),
+  roll: z.number(),
+  gazeX: z.number(),
+  gazeY: z.number(),
+  blinking: z.boolean(),
+  faceBox: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).optional(),
+});
+
+const gestureEventSchema = z.object({
+  gesture: z.enum(['handRaise', 'thumbsUp', 'wave', 'pointing', 'faceTouch']),
+  time: z.number().nonnegative(),
+  duration: z.number().nonnegative(),
+  hand: z.string(),
+  confidence: probability,
+});
+
+const analysisSchema = z.object({
+  emotions: z.array(emotionSampleSchema),
+  smoothing: z.object({
+    method: z.enum(['none', 'ema', 'median']),
+    emaAlpha: z.number(),
+    medianWindow: z.number(),
+    hysteresis: z.boolean(),
+    hysteresisMargin: z.number(),
+    hysteresisFrames: z.number(),
+  }).optional(),
+  calibration: z.object({
+    backend: z.string(),
+    temperature: z.number().positive(),
+    accuracy: probability,
+    samples: z.number().int().nonnegative(),
+  }).optional(),
+  pauses: z.array(z.object({ time: z.number(), duration: z.number() })).optional(),
+  audio: z.object({
+    peakDb: z.number(),
+    rmsDb: z.number(),
+    clippingEvents: z.number().int().nonnegative(),
+    silentSeconds: z.number().nonnegative(),
+    voicedSeconds: z.number().nonnegative().optional(),
+  }).optional(),
+  attention: z.array(attentionSampleSchema).optional(),
+  gestures: z.array(gestureEventSchema).optional(),
+});
+
+const metadataSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  createdAt: z.string().datetime({ offset: true }),
+  duration: z.number().nonnegative(),
+  mimeType: z.string(),
+  size: z.number().int().nonnegative(),
+  thumbnail: z.string().nullable(),
+  capture: z.object({
+    profile: z.string(),
+    width: z.number(),
+    height: z.number(),
+    frameRate: z.number(),
+    videoBitsPerSecond: z.number(),
+    audioBitsPerSecond: z.number(),
+    layout: z.enum(['camera', 'screen', 'pip']).optional(),
+  }).optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+// Only the format and version are read first, so a newer bundle gets a clear message
+const bundleHeaderSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+});
+
+const manifestSchema = bundleHeaderSchema.extend({
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  /** Metadata as stored; the thumbnail is a file in the bundle rather than a data URL */
+  recording: metadataSchema,
+  files: z.object({
+    video: z.string(),
+    thumbnail: z.string().optional(),
+  }),
+});
+
+type BundleManifest = Omit<z.infer<typeof manifestSchema>, 'recording'> & { recording: RecordingMetadata };
+
+const zipAsync = (files: Zippable) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Unzipped>((resolve, reject) => {
+    unzip(data, (error, files) => (error ? reject(error) : resolve(files)));
+  });
+
+const encodeJson = (value: unknown) => new TextEncoder().encode(JSON.stringify(value, null, 2));
+
+const decodeJson = (bytes: Uint8Array, name: string): unknown => {
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new BundleError(`${name} is not valid JSON`);
+  }
+};
+
+const dataUrlToBytes = async (dataUrl: string) => new Uint8Array(await (await fetch(dataUrl)).arrayBuffer());
+
+const bytesToDataUrl = (bytes: Uint8Array, type: string) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(new Blob([bytes], { type }));
+  });
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.slice(0, 3).map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`).join('; ');
+
+/**
+ * Packs a recording's video, thumbnail, metadata and analysis into one zip
+ */
+export const exportSessionBundle = async (id: string): Promise<Blob> => {
+  const [recording, blob, analysis] = await Promise.all([
+    getRecording(id),
+    getRecordingBlob(id),
+    getRecordingAnalysis(id),
+  ]);
+  if (!recording || !blob) {
+    throw new Error('Recording not found');
+  }
+
+  const videoFile = `video.${extensionForMimeType(recording.mimeType)}`;
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    recording: { ...recording, thumbnail: null },
+    files: {
+      video: videoFile,
+      ...(recording.thumbnail ? { thumbnail: 'thumbnail.jpg' } : {}),
+    },
+  };
+
+  const files: Zippable = {
+    [MANIFEST_FILE]: encodeJson(manifest),
+    [ANALYSIS_FILE]: encodeJson(analysis ?? { emotions: [] }),
+    // The video is already compressed, so it is only stored
+    [videoFile]: [new Uint8Array(await blob.arrayBuffer()), { level: 0 }],
+  };
+  if (recording.thumbnail) {
+    files['thumbnail.jpg'] = [await dataUrlToBytes(recording.thumbnail), { level: 0 }];
+  }
+
+  return new Blob([await zipAsync(files)], { type: 'application/zip' });
+};
+
+/**
+ * Reads and validates a bundle made by exportSessionBundle
+ * @returns The recording, ready to save with its original id
+ */
+const readSessionBundle = async (file: Blob): Promise<NewRecording & { id: string }> => {
+  let files: Unzipped;
+  try {
+    files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new BundleError('The file is not a zip archive');
+  }
+
+  if (!files[MANIFEST_FILE]) {
+    throw new BundleError('The archive is not a session bundle');
+  }
+  const rawManifest = decodeJson(files[MANIFEST_FILE], MANIFEST_FILE);
+
+  const header = bundleHeaderSchema.safeParse(rawManifest);
+  if (!header.success) {
+    throw new BundleError('The archive is not a session bundle');
+  }
+  if (header.data.version > BUNDLE_VERSION) {
+    throw new BundleError(
+      `The bundle is version ${header.data.version}, but this app only reads up to version ${BUNDLE_VERSION}. Update the app to import it.`
+    );
+  }
+
+  const manifest = manifestSchema.safeParse(rawManifest);
+  if (!manifest.success) {
+    throw new BundleError(`The bundle's manifest is invalid (${describeIssues(manifest.error)})`);
+  }
+  const { recording, files: entries } = manifest.data as BundleManifest;
+
+  const analysis = analysisSchema.safeParse(
+    files[ANALYSIS_FILE] ? decodeJson(files[ANALYSIS_FILE], ANALYSIS_FILE) : undefined
+  );
+  if (!analysis.success) {
+    throw new BundleError(`The bundle's analysis is invalid (${describeIssues(analysis.error)})`);
+  }
+
+  const video = files[entries.video];
+  if (!video || video.byteLength !== recording.size) {
+    throw new BundleError('The bundle\'s video is missing or incomplete');
+  }
+
+  const thumbnail = entries.thumbnail && files[entries.thumbnail];
+
+  return {
+    id: recording.id,
+    title: recording.title,
+    blob: new Blob([video], { type: recording.mimeType }),
+    duration: recording.duration,
+    thumbnail: thumbnail ? await bytesToDataUrl(thumbnail, 'image/jpeg') : null,
+    createdAt: recording.createdAt,
+    capture: recording.capture,
+    tags: recording.tags,
+    analysis: analysis.data as RecordingAnalysis,
+  };
+};
+
+/**
+ * Adds a bundled recording to the library under its original id, so it
+ * appears exactly as it did on the machine it came from
+ * @throws BundleError if the file is not a bundle, is from a newer version,
+ * is damaged, or its recording is already in the library
+ */
+export const importSessionBundle = async (file: Blob): Promise<RecordingMetadata> => {
+  const recording = await readSessionBundle(file);
+  if (await getRecording(recording.id)) {
+    throw new BundleError(`"${recording.title}" is already in your library`);
+  }
+  return createRecording(recording);
+};
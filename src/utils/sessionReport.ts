@@ -0,0 +1,189 @@
+import type { EmotionScores } from '@/utils/emotionDetection';
+import type { EmotionLabel } from '@/utils/emotionBackends';
+import type { AudioStats } from '@/utils/audioLevels';
+import type { AppliedCalibration } from '@/utils/emotionCalibration';
+import { selectSeries } from '@/utils/emotionTimeline';
+import { EMOTION_KEYS, emptyEmotionScores } from '@/utils/emotionPalette';
+import { lookingAtCameraShare } from '@/utils/attentionTracking';
+import { GESTURE_LABELS, type GestureType } from '@/utils/gestureDetection';
+import type { RecordingAnalysis, RecordingMetadata } from '@/utils/recordingStore';
+
+// The strip of dominant emotions has about this many segments, each at least MIN_SEGMENT_MS long
+const TIMELINE_SEGMENTS = 24;
+const MIN_SEGMENT_MS = 5000;
+// A moment needs at least this score, and moments of one emotion are spread this far apart
+const MIN_MOMENT_SCORE = 0.4;
+const MOMENT_SPACING_MS = 5000;
+const MOMENTS_PER_EMOTION = 2;
+
+/**
+ * A stretch of the recording and the emotion that led it
+ */
+export interface ReportSegment {
+  /** Milliseconds into the video */
+  start: number;
+  end: number;
+  /** Most frequent top emotion, or null when nothing was analyzed */
+  emotion: EmotionLabel | null;
+}
+
+/**
+ * A frame where one emotion scored especially high
+ */
+export interface EmotionMoment {
+  emotion: EmotionLabel;
+  /** Milliseconds into the video */
+  time: number;
+  score: number;
+}
+
+export interface GestureSummary {
+  gesture: GestureType;
+  label: string;
+  count: number;
+  /** Total time the gesture was held, in seconds */
+  heldSeconds: number;
+}
+
+export interface SessionReport {
+  title: string;
+  createdAt: string;
+  /** ISO 8601 timestamp of when the report was built */
+  generatedAt: string;
+  /** Length of the video in seconds */
+  duration: number;
+  pauseCount: number;
+  /** Time spent paused, which is not in the video, in seconds */
+  pausedSeconds: number;
+  /** Number of analyzed frames */
+  samples: number;
+  /** Share of analyzed frames in which a face was found, or null if not recorded */
+  faceDetectedShare: number | null;
+  /** Share of frames each emotion was the top one, using the smoothed series */
+  distribution: EmotionScores;
+  /** Mean score of each emotion over all frames */
+  averageScores: EmotionScores;
+  dominantEmotion: EmotionLabel | null;
+  timeline: ReportSegment[];
+  moments: EmotionMoment[];
+  attention: { lookingAtCameraShare: number; averageAttention: number } | null;
+  gestures: GestureSummary[];
+  audio?: AudioStats;
+  calibration?: AppliedCalibration;
+}
+
+const isEmotionLabel = (value: string): value is EmotionLabel => (EMOTION_KEYS as string[]).includes(value);
+
+const mostFrequent = (labels: EmotionLabel[]): EmotionLabel | null => {
+  const counts = new Map<EmotionLabel, number>();
+  labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1));
+  let best: EmotionLabel | null = null;
+  let bestCount = 0;
+  for (const [label, count] of counts) {
+    if (count > bestCount) {
+      best = label;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Summarises a recording's analysis for the session report
+ */
+export const buildSessionReport = (recording: RecordingMetadata, analysis: RecordingAnalysis): SessionReport => {
+  const raw = analysis.emotions;
+  const smoothed = selectSeries(raw, 'smoothed');
+  const durationMs = recording.duration * 1000;
+
+  const distribution = emptyEmotionScores();
+  const averageScores = emptyEmotionScores();
+  smoothed.forEach(sample => {
+    if (isEmotionLabel(sample.emotion)) distribution[sample.emotion]++;
+  });
+  raw.forEach(sample => {
+    EMOTION_KEYS.forEach(key => {
+      averageScores[key] += sample.scores[key];
+    });
+  });
+  EMOTION_KEYS.forEach(key => {
+    distribution[key] /= smoothed.length || 1;
+    averageScores[key] /= raw.length || 1;
+  });
+
+  const labels = smoothed.map(sample => sample.emotion).filter(isEmotionLabel);
+
+  // Dominant emotion over time, in evenly sized windows
+  const segmentLength = Math.max(MIN_SEGMENT_MS, durationMs / TIMELINE_SEGMENTS);
+  const timeline: ReportSegment[] = [];
+  for (let start = 0; start < durationMs; start += segmentLength) {
+    const end = Math.min(durationMs, start + segmentLength);
+    const inWindow = smoothed
+      .filter(sample => sample.time >= start && sample.time < end)
+      .map(sample => sample.emotion)
+      .filter(isEmotionLabel);
+    timeline.push({ start, end, emotion: mostFrequent(inWindow) });
+  }
+
+  // The highest-scoring frames of each emotion, spread out so they are not all one expression
+  const moments: EmotionMoment[] = [];
+  EMOTION_KEYS.forEach(emotion => {
+    const picked: EmotionMoment[] = [];
+    [...raw]
+      .filter(sample => sample.faceDetected !== false && sample.scores[emotion] >= MIN_MOMENT_SCORE)
+      .sort((a, b) => b.scores[emotion] - a.scores[emotion])
+      .forEach(sample => {
+        if (picked.length >= MOMENTS_PER_EMOTION) return;
+        if (picked.some(moment => Math.abs(moment.time - sample.time) < MOMENT_SPACING_MS)) return;
+        picked.push({ emotion, time: sample.time, score: sample.scores[emotion] });
+      });
+    moments.push(...picked);
+  });
+
+  const attentionSamples = analysis.attention ?? [];
+  const lookingShare = lookingAtCameraShare(attentionSamples);
+  const faces = attentionSamples.filter(sample => sample.faceDetected);
+
+  const gestureEvents = analysis.gestures ?? [];
+  const gestures = (Object.keys(GESTURE_LABELS) as GestureType[])
+    .map(gesture => {
+      const events = gestureEvents.filter(event => event.gesture === gesture);
+      return {
+        gesture,
+        label: GESTURE_LABELS[gesture],
+        count: events.length,
+        heldSeconds: events.reduce((sum, event) => sum + event.duration, 0) / 1000,
+      };
+    })
+    .filter(summary => summary.count > 0);
+
+  const pauses = analysis.pauses ?? [];
+  const withFaceInfo = raw.filter(sample => sample.faceDetected !== undefined);
+
+  return {
+    title: recording.title,
+    createdAt: recording.createdAt,
+    generatedAt: new Date().toISOString(),
+    duration: recording.duration,
+    pauseCount: pauses.length,
+    pausedSeconds: pauses.reduce((sum, pause) => sum + pause.duration, 0) / 1000,
+    samples: raw.length,
+    faceDetectedShare: withFaceInfo.length
+      ? withFaceInfo.filter(sample => sample.faceDetected).length / withFaceInfo.length
+      : null,
+    distribution,
+    averageScores,
+    dominantEmotion: mostFrequent(labels),
+    timeline,
+    moments,
+    attention: lookingShare === null
+      ? null
+      : {
+          lookingAtCameraShare: lookingShare,
+          averageAttention: faces.reduce((sum, sample) => sum + sample.attention, 0) / (faces.length || 1),
+        },
+    gestures,
+    audio: analysis.audio,
+    calibration: analysis.calibration,
+  };
+};
@@ -0,0 +1,137 @@
+import { endOfDay, startOfDay, startOfWeek } from 'date-fns';
+import type { EmotionScores } from '@/utils/emotionDetection';
+import { EMOTION_KEYS } from '@/utils/emotionPalette';
+import { buildSessionReport } from '@/utils/sessionReport';
+import type { RecordingAnalysis, RecordingMetadata } from '@/utils/recordingStore';
+
+/**
+ * The figures of one session that the trends dashboard aggregates
+ */
+export interface SessionSummary {
+  id: string;
+  createdAt: string;
+  /** Length of the video in seconds */
+  duration: number;
+  tags: string[];
+  /** Share of frames each emotion was the top one, or null when nothing was analyzed */
+  distribution: EmotionScores | null;
+  /** Share of face frames spent looking at the camera, or null when gaze was not tracked */
+  lookingAtCameraShare: number | null;
+  /** Voiced time while the microphone was on, or null when it was not measured */
+  speakingSeconds: number | null;
+}
+
+/**
+ * Sessions of one calendar week, averaged so long sessions count for more
+ */
+export interface WeeklyTrend {
+  /** Monday the week starts on, as an ISO 8601 date */
+  week: string;
+  sessions: number;
+  /** Total recorded time in seconds */
+  duration: number;
+  emotions: EmotionScores | null;
+  lookingAtCameraShare: number | null;
+  /** Total speaking time in seconds */
+  speakingSeconds: number | null;
+}
+
+export interface TrendFilter {
+  /** Only sessions with this tag; undefined for all */
+  tag?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Reduces a recording and its analysis to the figures charted over time
+ */
+export const summarizeSession = (
+  recording: RecordingMetadata,
+  analysis: RecordingAnalysis | null
+): SessionSummary => {
+  const report = analysis ? buildSessionReport(recording, analysis) : null;
+  return {
+    id: recording.id,
+    createdAt: recording.createdAt,
+    duration: recording.duration,
+    tags: recording.tags ?? [],
+    distribution: report?.samples ? report.distribution : null,
+    lookingAtCameraShare: report?.attention?.lookingAtCameraShare ?? null,
+    speakingSeconds: report?.audio?.voicedSeconds ?? null,
+  };
+};
+
+/**
+ * Tags used by any of the sessions, alphabetically
+ */
+export const collectTags = (summaries: SessionSummary[]): string[] =>
+  [...new Set(summaries.flatMap(summary => summary.tags))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Keeps the sessions with the filter's tag that were recorded within its dates, inclusive
+ */
+export const filterSessions = (summaries: SessionSummary[], filter: TrendFilter): SessionSummary[] => {
+  const from = filter.from ? startOfDay(filter.from).getTime() : -Infinity;
+  const to = filter.to ? endOfDay(filter.to).getTime() : Infinity;
+  return summaries.filter(summary => {
+    const time = new Date(summary.createdAt).getTime();
+    if (time < from || time > to) return false;
+    return !filter.tag || summary.tags.includes(filter.tag);
+  });
+};
+
+// Mean of the values that are present, weighted by session length
+const weightedMean = (entries: { value: number | null; weight: number }[]): number | null => {
+  const present = entries.filter(entry => entry.value !== null);
+  if (present.length === 0) return null;
+  const totalWeight = present.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) {
+    return present.reduce((sum, entry) => sum + entry.value!, 0) / present.length;
+  }
+  return present.reduce((sum, entry) => sum + entry.value! * entry.weight, 0) / totalWeight;
+};
+
+/**
+ * Groups sessions by the week they were recorded in, oldest week first.
+ * Weeks without sessions are left out.
+ */
+export const aggregateByWeek = (summaries: SessionSummary[]): WeeklyTrend[] => {
+  const weeks = new Map<number, SessionSummary[]>();
+  summaries.forEach(summary => {
+    const week = startOfWeek(new Date(summary.createdAt), { weekStartsOn: 1 }).getTime();
+    weeks.set(week, [...(weeks.get(week) ?? []), summary]);
+  });
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([week, sessions]) => {
+      const analyzed = sessions.filter(session => session.distribution);
+      let emotions: EmotionScores | null = null;
+      if (analyzed.length > 0) {
+        emotions = {} as EmotionScores;
+        EMOTION_KEYS.forEach(key => {
+          emotions[key] = weightedMean(analyzed.map(session => ({
+            value: session.distribution[key],
+            weight: session.duration,
+          })));
+        });
+      }
+
+      const speaking = sessions.filter(session => session.speakingSeconds !== null);
+
+      return {
+        week: new Date(week).toISOString(),
+        sessions: sessions.length,
+        duration: sessions.reduce((sum, session) => sum + session.duration, 0),
+        emotions,
+        lookingAtCameraShare: weightedMean(sessions.map(session => ({
+          value: session.lookingAtCameraShare,
+          weight: session.duration,
+        }))),
+        speakingSeconds: speaking.length
+          ? speaking.reduce((sum, session) => sum + session.speakingSeconds!, 0)
+          : null,
+      };
+    });
+};
@@ -0,0 +1,94 @@
+import { DEFAULT_EMOTION_BACKEND, getEmotionBackendMetadata } from '@/utils/emotionBackends';
+import { DEFAULT_SMOOTHING, type SmoothingSettings } from '@/utils/emotionSmoothing';
+import { DEFAULT_CAPTURE_PROFILE, getCaptureProfile } from '@/utils/captureProfiles';
+import type { ModelCalibration } from '@/utils/emotionCalibration';
+
+const SETTINGS_STORAGE_KEY = 'videomotion:settings';
+
+export interface StudioSettings {
+  /** Id of the registered emotion backend to load */
+  emotionBackend: string;
+  /** Temporal filtering applied to the live emotion stream */
+  smoothing: SmoothingSettings;
+  /** Preferred camera and microphone; null uses the system default */
+  videoDeviceId: string | null;
+  audioDeviceId: string | null;
+  /** Id of the resolution, frame rate and bitrate profile to record with */
+  captureProfile: string;
+  /** Warn after the microphone has been silent this many seconds while recording; 0 disables it */
+  silenceWarningSeconds: number;
+  /** Measured calibration of each emotion backend, keyed by backend id */
+  calibrations: Record<string, ModelCalibration>;
+  /** Below this calibrated confidence the emotion is shown as uncertain (0-1) */
+  uncertaintyThreshold: number;
+}
+
+export const DEFAULT_SETTINGS: StudioSettings = {
+  emotionBackend: DEFAULT_EMOTION_BACKEND,
+  smoothing: DEFAULT_SMOOTHING,
+  videoDeviceId: null,
+  audioDeviceId: null,
+  captureProfile: DEFAULT_CAPTURE_PROFILE,
+  silenceWarningSeconds: 10,
+  calibrations: {},
+  uncertaintyThreshold: 0.4,
+};
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let cachedSettings: StudioSettings | null = null;
+
+/**
+ * Drops stored values that no longer make sense, e.g. a backend that has
+ * since been removed from the registry
+ */
+const sanitize = (settings: StudioSettings): StudioSettings => ({
+  ...settings,
+  emotionBackend: getEmotionBackendMetadata(settings.emotionBackend)
+    ? settings.emotionBackend
+    : DEFAULT_SETTINGS.emotionBackend,
+  smoothing: { ...DEFAULT_SETTINGS.smoothing, ...settings.smoothing },
+  captureProfile: getCaptureProfile(settings.captureProfile).id,
+  calibrations: typeof settings.calibrations === 'object' && settings.calibrations !== null
+    ? settings.calibrations
+    : {},
+  uncertaintyThreshold: Math.min(1, Math.max(0, Number(settings.uncertaintyThreshold) || 0)),
+});
+
+/**
+ * Reads the user's settings, filling in defaults for anything not yet stored
+ */
+export const getSettings = (): StudioSettings => {
+  if (cachedSettings) return cachedSettings;
+
+  let stored: Partial<StudioSettings> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? '{}');
+  } catch (error) {
+    console.warn('Ignoring unreadable settings:', error);
+  }
+
+  cachedSettings = sanitize({ ...DEFAULT_SETTINGS, ...stored });
+  return cachedSettings;
+};
+
+/**
+ * Saves changes to the user's settings and notifies subscribers
+ */
+export const updateSettings = (changes: Partial<StudioSettings>) => {
+  cachedSettings = sanitize({ ...getSettings(), ...changes });
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(cachedSettings));
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Calls the listener whenever the settings change
+ * @returns A function that unsubscribes
+ */
+export const subscribeToSettings = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,134 @@
+import { detectEmotion, getAppliedCalibration } from '@/utils/emotionDetection';
+import { createEmotionSmoother } from '@/utils/emotionSmoothing';
+import { estimateAttention, type AttentionSample } from '@/utils/attentionTracking';
+import { createGestureTracker, detectHands, type GestureEvent } from '@/utils/gestureDetection';
+import type { EmotionSample } from '@/utils/emotionTimeline';
+import type { RecordingAnalysis } from '@/utils/recordingStore';
+import { getSettings } from '@/utils/settings';
+import { waitForEvent } from '@/utils/videoThumbnail';
+
+/** Frames per second that can be sampled from a video */
+export const SAMPLE_RATES = [1, 2, 5, 10];
+
+export const DEFAULT_SAMPLE_RATE = 2;
+
+// Seeking to the end of a long WebM without a duration reads the whole file
+const DURATION_SEEK_TIMEOUT_MS = 60_000;
+
+interface VideoAnalysisOptions {
+  /** Frames analysed per second of video */
+  sampleRate?: number;
+  /** Length of the video in seconds, if already known, e.g. from the stored recording */
+  duration?: number;
+  /** Called after each frame with the share of the video done (0-1) */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface VideoAnalysisResult {
+  /** Length of the video in seconds */
+  duration: number;
+  analysis: RecordingAnalysis;
+}
+
+const seek = async (video: HTMLVideoElement, time: number, timeoutMs?: number) => {
+  const seeked = waitForEvent(video, 'seeked', timeoutMs);
+  video.currentTime = time;
+  await seeked;
+};
+
+/**
+ * Finds a video's length, from its metadata or the length already known.
+ * MediaRecorder output often stores none, in which case the browser works
+ * it out once asked to seek past the end, which can take a while.
+ */
+const resolveDuration = async (video: HTMLVideoElement, known?: number): Promise<number> => {
+  if (Number.isFinite(video.duration) && video.duration > 0) return video.duration;
+  if (known && known > 0) return known;
+
+  await seek(video, Number.MAX_SAFE_INTEGER, DURATION_SEEK_TIMEOUT_MS);
+  return Number.isFinite(video.duration) ? video.duration : video.currentTime;
+};
+
+/**
+ * Runs the live analysis pipeline over a stored or uploaded video by seeking
+ * an offscreen element frame by frame, producing the same timelines a
+ * recording session would. Models that are not loaded are skipped.
+ * @param blob - The video to analyse
+ */
+export const analyzeVideo = async (
+  blob: Blob,
+  { sampleRate = DEFAULT_SAMPLE_RATE, duration: knownDuration, onProgress, signal }: VideoAnalysisOptions = {}
+): Promise<VideoAnalysisResult> => {
+  const { smoothing } = getSettings();
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const metadata = waitForEvent(video, 'loadedmetadata');
+    video.src = url;
+    await metadata;
+
+    const duration = await resolveDuration(video, knownDuration);
+    const frameCount = Math.max(1, Math.floor(duration * sampleRate));
+
+    const smoother = createEmotionSmoother(smoothing);
+    const gestureTracker = createGestureTracker(1000 / sampleRate);
+    const emotions: EmotionSample[] = [];
+    const attention: AttentionSample[] = [];
+    const gestures: GestureEvent[] = [];
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      if (signal?.aborted) throw new DOMException('Analysis cancelled', 'AbortError');
+
+      const seconds = frame / sampleRate;
+      await seek(video, seconds);
+      const time = seconds * 1000;
+
+      const result = await detectEmotion(video);
+      if (result) {
+        emotions.push({
+          time,
+          emotion: result.emotion,
+          confidence: result.confidence,
+          scores: result.allEmotions,
+          faceDetected: result.faceDetected,
+          smoothed: smoother.push(result.allEmotions)
+        });
+      }
+
+      const estimate = estimateAttention(video);
+      if (estimate) {
+        attention.push({ ...estimate, time });
+      }
+
+      const hands = detectHands(video);
+      if (hands) {
+        const faceBox = estimate?.faceDetected ? estimate.faceBox : undefined;
+        const { ended } = gestureTracker.push(hands, time, video.videoWidth / video.videoHeight, faceBox);
+        gestures.push(...ended);
+      }
+
+      onProgress?.((frame + 1) / frameCount);
+    }
+    gestures.push(...gestureTracker.flush());
+
+    return {
+      duration,
+      analysis: {
+        emotions,
+        attention,
+        gestures: gestures.sort((a, b) => a.time - b.time),
+        smoothing,
+        calibration: getAppliedCalibration() ?? undefined
+      }
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,133 @@
+const THUMBNAIL_WIDTH = 400;
+const LOAD_TIMEOUT_MS = 5000;
+
+/**
+ * Waits for a media event, rejecting on error or timeout
+ * @param timeoutMs - How long to wait, in milliseconds
+ */
+export const waitForEvent = (
+  video: HTMLVideoElement,
+  eventName: string,
+  timeoutMs = LOAD_TIMEOUT_MS
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timeout = window.setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for ${eventName}`));
+    }, timeoutMs);
+
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(video.error ?? new Error('Video failed to load'));
+    };
+    const cleanup = () => {
+      window.clearTimeout(timeout);
+      video.removeEventListener(eventName, onEvent);
+      video.removeEventListener('error', onError);
+    };
+
+    video.addEventListener(eventName, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+/**
+ * Generates a JPEG thumbnail from a recorded video
+ * @param blob - The recorded video
+ * @param seekTo - Time in seconds of the frame to capture
+ * @returns A data URL, or null if no frame could be decoded
+ */
+export const generateThumbnail = async (blob: Blob, seekTo = 1): Promise<string | null> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+
+    // MediaRecorder output often has no duration, so only clamp when it is known
+    const target = Number.isFinite(video.duration) ? Math.min(seekTo, video.duration / 2) : seekTo;
+    if (target > 0) {
+      const seeked = waitForEvent(video, 'seeked');
+      video.currentTime = target;
+      await seeked.catch(() => undefined);
+    }
+
+    if (!video.videoWidth || !video.videoHeight) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * THUMBNAIL_WIDTH);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.error('Failed to generate thumbnail:', error);
+    return null;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Captures JPEG stills at several points in a video, decoding it only once
+ * @param blob - The video
+ * @param times - Times in milliseconds of the frames to capture
+ * @returns Data URLs keyed by time; frames that could not be decoded are left out
+ */
+export const captureFrames = async (
+  blob: Blob,
+  times: number[],
+  width = THUMBNAIL_WIDTH
+): Promise<Map<number, string>> => {
+  const frames = new Map<number, string>();
+  if (times.length === 0) return frames;
+
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    if (!video.videoWidth || !video.videoHeight) return frames;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * width);
+    const context = canvas.getContext('2d');
+    if (!context) return frames;
+
+    for (const time of times) {
+      const seeked = waitForEvent(video, 'seeked');
+      video.currentTime = time / 1000;
+      const found = await seeked.then(() => true, () => false);
+      if (!found) continue;
+
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.set(time, canvas.toDataURL('image/jpeg', 0.8));
+    }
+  } catch (error) {
+    console.error('Failed to capture frames:', error);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+
+  return frames;
+};
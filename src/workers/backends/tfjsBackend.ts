@@ -0,0 +1,89 @@
+import type * as tfjs from '@tensorflow/tfjs';
+import type { EmotionScores } from '@/utils/emotionDetection';
+import { getEmotionBackendMetadata, type EmotionBackend, type EmotionLabel } from '@/utils/emotionBackends';
+
+// Keras model bundled in public/, trained on 48x48 grayscale FER-2013 faces
+const MODEL_URL = `${import.meta.env.BASE_URL}emotion_detector.json`;
+const INPUT_SIZE = 48;
+
+interface WeightsManifestGroup {
+  paths: string[];
+  weights: unknown[];
+}
+
+/**
+ * Checks that the model's weight shards are served next to its manifest, so a
+ * model checked in without them fails with the missing file's name instead of
+ * loading untrained or failing deep inside TensorFlow.js
+ */
+const assertWeightsPresent = async () => {
+  const manifest = await (await fetch(MODEL_URL)).json();
+  const groups: WeightsManifestGroup[] = manifest.weightsManifest ?? [];
+  const shards = groups.flatMap(group => group.paths);
+
+  if (!groups.some(group => group.weights.length > 0)) {
+    throw new Error(`emotion_detector.json lists no weights; add ${shards.join(', ') || 'its weights'} to public/ with the model`);
+  }
+  for (const shard of shards) {
+    const response = await fetch(new URL(shard, new URL(MODEL_URL, self.location.href)), { method: 'HEAD' });
+    // The dev server answers unknown paths with index.html rather than a 404
+    if (!response.ok || response.headers.get('content-type')?.includes('text/html')) {
+      throw new Error(`Missing public/${shard}, the weights of the bundled emotion model`);
+    }
+  }
+};
+
+// FER-2013 class order, which the model's softmax output follows
+const FER_LABELS: EmotionLabel[] = ['angry', 'disgust', 'fear', 'happy', 'sad', 'surprised', 'neutral'];
+
+/**
+ * The bundled Keras CNN, run with TensorFlow.js. Everything is served by the
+ * app itself, so this works without network access.
+ */
+export const createTfjsBackend = (): EmotionBackend => {
+  let tf: typeof tfjs | null = null;
+  let model: tfjs.LayersModel | null = null;
+
+  return {
+    metadata: getEmotionBackendMetadata('tfjs')!,
+    labels: FER_LABELS,
+
+    load: async () => {
+      await assertWeightsPresent();
+      tf = await import('@tensorflow/tfjs');
+      await tf.ready();
+      model = await tf.loadLayersModel(MODEL_URL);
+
+      // Warm up once so the first real frame does not pay for shader compilation
+      tf.tidy(() => {
+        model!.predict(tf!.zeros([1, INPUT_SIZE, INPUT_SIZE, 1]));
+      });
+    },
+
+    classify: async (image) => {
+      if (!tf || !model) throw new Error('TensorFlow.js model not loaded');
+
+      const probabilities = tf.tidy(() => {
+        const pixels = tf!.browser.fromPixels(image, 3);
+        const gray = tf!.image.rgbToGrayscale(pixels);
+        const resized = tf!.image.resizeBilinear(gray, [INPUT_SIZE, INPUT_SIZE]);
+        const input = resized.toFloat().div(255).expandDims(0);
+        return model!.predict(input) as tfjs.Tensor;
+      });
+
+      const values = await probabilities.data();
+      probabilities.dispose();
+
+      const scores = {} as EmotionScores;
+      FER_LABELS.forEach((label, index) => {
+        scores[label] = values[index] ?? 0;
+      });
+      return scores;
+    },
+
+    dispose: async () => {
+      model?.dispose();
+      model = null;
+    }
+  };
+};
@@ -0,0 +1,93 @@
+import type { ImageClassificationPipeline } from "@huggingface/transformers";
+import type { EmotionScores } from '@/utils/emotionDetection';
+import { getEmotionBackendMetadata, type EmotionBackend } from '@/utils/emotionBackends';
+
+type Transformers = typeof import("@huggingface/transformers");
+
+// pipeline()'s generic overloads are too large for the compiler to resolve,
+// so narrow it to the one task this backend uses
+type LoadImageClassifier = (
+  task: 'image-classification',
+  model: string,
+  options?: { revision?: string }
+) => Promise<ImageClassificationPipeline>;
+
+/**
+ * Maps the model's output to our UI's expected format
+ */
+const mapEmotionsToUIFormat = (predictions: { label: string; score: number }[]): EmotionScores => {
+  // Initialize with zeros
+  const result: EmotionScores = {
+    happy: 0,
+    neutral: 0,
+    surprised: 0,
+    sad: 0,
+    angry: 0,
+    disgust: 0,
+    fear: 0
+  };
+  
+  // Map the predictions to our standard format
+  predictions.forEach(prediction => {
+    // Convert model's emotion label to lowercase and normalize
+    const emotion = prediction.label.toLowerCase();
+    
+    // Handle different emotion formats
+    if (emotion.includes('happy')) {
+      result.happy = prediction.score;
+    } else if (emotion.includes('neutral')) {
+      result.neutral = prediction.score;
+    } else if (emotion.includes('surprise')) {
+      result.surprised = prediction.score;
+    } else if (emotion.includes('sad')) {
+      result.sad = prediction.score;
+    } else if (emotion.includes('angry') || emotion.includes('anger')) {
+      result.angry = prediction.score;
+    } else if (emotion.includes('disgust')) {
+      result.disgust = prediction.score;
+    } else if (emotion.includes('fear')) {
+      result.fear = prediction.score;
+    }
+  });
+  
+  return result;
+};
+
+/**
+ * The Hugging Face ViT classifier, run with transformers.js
+ */
+export const createTransformersBackend = (): EmotionBackend => {
+  let transformers: Transformers | null = null;
+  let emotionClassifier: ImageClassificationPipeline | null = null;
+
+  return {
+    metadata: getEmotionBackendMetadata('transformers')!,
+    labels: ['angry', 'disgust', 'fear', 'happy', 'sad', 'surprised', 'neutral'],
+
+    load: async () => {
+      transformers = await import("@huggingface/transformers");
+      // Load a model that's supported in the browser environment
+      emotionClassifier = await (transformers.pipeline as LoadImageClassifier)(
+        "image-classification",
+        "Xenova/emotion-recognition-75", // This is a compatible model for browser environment
+        { revision: "main" } // Using supported options
+      );
+    },
+
+    classify: async (image) => {
+      if (!transformers || !emotionClassifier) throw new Error('Emotion classifier not loaded');
+
+      // A null top_k returns every class, so all seven scores are filled in
+      const predictions = await emotionClassifier(
+        new transformers.RawImage(image.data, image.width, image.height, 4),
+        { top_k: null }
+      );
+      return mapEmotionsToUIFormat(predictions as { label: string; score: number }[]);
+    },
+
+    dispose: async () => {
+      await emotionClassifier?.dispose();
+      emotionClassifier = null;
+    }
+  };
+};
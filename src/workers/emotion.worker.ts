@@ -0,0 +1,107 @@
+import type { EmotionResult } from '@/utils/emotionDetection';
+import { createEmotionBackend, type EmotionBackend } from '@/utils/emotionBackends';
+import type { EmotionFrame, EmotionWorkerRequest, EmotionWorkerResponse } from './emotionProtocol';
+
+// The backend currently loaded, if any
+let backend: EmotionBackend | null = null;
+let canvas: OffscreenCanvas | null = null;
+
+const respond = (message: EmotionWorkerResponse) => {
+  self.postMessage(message);
+};
+
+/**
+ * Releases whichever model is currently loaded
+ */
+const disposeModel = async () => {
+  await backend?.dispose();
+  backend = null;
+};
+
+/**
+ * Loads the requested emotion model, replacing any previously loaded one
+ */
+const loadModel = async (backendId: string) => {
+  try {
+    await disposeModel();
+
+    const next = await createEmotionBackend(backendId);
+    await next.load();
+    backend = next;
+    
+    respond({ type: 'loaded', ok: true });
+  } catch (error) {
+    respond({ type: 'loaded', ok: false, error: String(error) });
+  }
+};
+
+/**
+ * Reads the pixels of a transferred frame.
+ * The canvas is reused between frames and the frame is closed afterwards.
+ */
+const frameToImageData = (frame: EmotionFrame): ImageData => {
+  const width = 'displayWidth' in frame ? frame.displayWidth : frame.width;
+  const height = 'displayHeight' in frame ? frame.displayHeight : frame.height;
+
+  if (!canvas || canvas.width !== width || canvas.height !== height) {
+    canvas = new OffscreenCanvas(width, height);
+  }
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Could not get canvas context');
+
+  try {
+    context.drawImage(frame, 0, 0, width, height);
+  } finally {
+    frame.close();
+  }
+
+  return context.getImageData(0, 0, width, height);
+};
+
+/**
+ * Runs the active backend on a single frame
+ */
+const infer = async (frame: EmotionFrame): Promise<EmotionResult | null> => {
+  if (!backend) {
+    frame.close();
+    return null;
+  }
+
+  const formattedEmotions = await backend.classify(frameToImageData(frame));
+  
+  // Find the emotion with highest confidence
+  let topEmotion = { emotion: 'neutral', score: 0 };
+  Object.entries(formattedEmotions).forEach(([emotion, score]) => {
+    if (score > topEmotion.score) {
+      topEmotion = { emotion, score };
+    }
+  });
+  
+  return {
+    emotion: topEmotion.emotion,
+    confidence: topEmotion.score,
+    allEmotions: formattedEmotions
+  };
+};
+
+self.addEventListener('message', async (event: MessageEvent<EmotionWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      await loadModel(message.backend);
+      break;
+    case 'infer':
+      try {
+        respond({ type: 'result', id: message.id, result: await infer(message.frame) });
+      } catch (error) {
+        respond({ type: 'error', id: message.id, error: String(error) });
+      }
+      break;
+    case 'dispose':
+      await disposeModel();
+      canvas = null;
+      respond({ type: 'disposed' });
+      break;
+  }
+});
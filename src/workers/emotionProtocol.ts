@@ -0,0 +1,19 @@
+import type { EmotionResult } from '@/utils/emotionDetection';
+
+/**
+ * Frames are transferred (not copied) to the worker, which closes them once
+ * they have been drawn.
+ */
+export type EmotionFrame = ImageBitmap | VideoFrame;
+
+export type EmotionWorkerRequest =
+  /** backend is the id of a backend registered in emotionBackends */
+  | { type: 'load'; backend: string }
+  | { type: 'infer'; id: number; frame: EmotionFrame }
+  | { type: 'dispose' };
+
+export type EmotionWorkerResponse =
+  | { type: 'loaded'; ok: boolean; error?: string }
+  | { type: 'result'; id: number; result: EmotionResult | null }
+  | { type: 'error'; id: number; error: string }
+  | { type: 'disposed' };
@@ -0,0 +1,16 @@
+/**
+ * Ticks at the requested interval. Timers in a dedicated worker keep their
+ * rate while the page is in a background tab, unlike requestAnimationFrame
+ * (paused) or main-thread timers (throttled to once a second or less).
+ */
+let timer: ReturnType<typeof setInterval> | null = null;
+
+self.addEventListener('message', (event: MessageEvent<number>) => {
+  if (timer !== null) clearInterval(timer);
+  timer = null;
+
+  // A non-positive interval stops the clock
+  if (event.data > 0) {
+    timer = setInterval(() => self.postMessage(null), event.data);
+  }
+});